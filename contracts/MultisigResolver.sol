@@ -0,0 +1,100 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.27;
+
+import {IPredictionResolver} from "./interfaces/IPredictionResolver.sol";
+import {ZeroTrustPredict} from "./ZeroTrustPredict.sol";
+
+/// @title MultisigResolver - M-of-N resolver for ZeroTrustPredict outcomes
+/// @notice A fixed set of signers vote on the winning option of a prediction. The first option to collect
+///         `threshold` votes becomes the final outcome, which the market pulls through `outcomeOf`.
+contract MultisigResolver is IPredictionResolver {
+    /// @notice Emitted when a signer votes for an outcome
+    event OutcomeVoted(address indexed market, uint256 indexed predictionId, address indexed signer, uint8 option);
+
+    /// @notice Emitted once an outcome reaches the approval threshold
+    event OutcomeFinalized(address indexed market, uint256 indexed predictionId, uint8 winningOption);
+
+    error InvalidThreshold(uint256 threshold, uint256 signerCount);
+    error InvalidSigner(address signer);
+    error NotSigner(address caller);
+    error AlreadyVoted(address market, uint256 predictionId, address signer);
+    error OutcomeAlreadyFinal(address market, uint256 predictionId);
+    error InvalidOption(uint8 option, uint256 optionCount);
+
+    struct Outcome {
+        bool resolved;
+        uint8 winningOption;
+    }
+
+    uint256 public immutable threshold;
+    address[] private _signers;
+
+    mapping(address signer => bool) public isSigner;
+    mapping(address market => mapping(uint256 predictionId => Outcome)) private _outcomes;
+    mapping(address market => mapping(uint256 predictionId => mapping(address signer => bool))) private _voted;
+    mapping(address market => mapping(uint256 predictionId => mapping(uint8 option => uint256))) private _votes;
+
+    constructor(address[] memory signers, uint256 requiredApprovals) {
+        if (requiredApprovals == 0 || requiredApprovals > signers.length) {
+            revert InvalidThreshold(requiredApprovals, signers.length);
+        }
+        for (uint256 i = 0; i < signers.length; i++) {
+            address signer = signers[i];
+            if (signer == address(0) || isSigner[signer]) {
+                revert InvalidSigner(signer);
+            }
+            isSigner[signer] = true;
+            _signers.push(signer);
+        }
+        threshold = requiredApprovals;
+    }
+
+    /// @notice Votes for the winning option of a prediction; each signer votes once per prediction
+    /// @dev The option must exist in the market, since a final out-of-range outcome could never be pulled
+    /// @param market The prediction market contract
+    /// @param predictionId The prediction identifier inside that market
+    /// @param option The 0-based index of the option the signer considers the winner
+    function voteOutcome(address market, uint256 predictionId, uint8 option) external {
+        if (!isSigner[msg.sender]) {
+            revert NotSigner(msg.sender);
+        }
+        if (_outcomes[market][predictionId].resolved) {
+            revert OutcomeAlreadyFinal(market, predictionId);
+        }
+        if (_voted[market][predictionId][msg.sender]) {
+            revert AlreadyVoted(market, predictionId, msg.sender);
+        }
+        (, , , , , , , string[] memory optionLabels, , , ) = ZeroTrustPredict(market).getPrediction(predictionId);
+        if (option >= optionLabels.length) {
+            revert InvalidOption(option, optionLabels.length);
+        }
+
+        _voted[market][predictionId][msg.sender] = true;
+        uint256 votes = ++_votes[market][predictionId][option];
+        emit OutcomeVoted(market, predictionId, msg.sender, option);
+
+        if (votes >= threshold) {
+            _outcomes[market][predictionId] = Outcome({resolved: true, winningOption: option});
+            emit OutcomeFinalized(market, predictionId, option);
+        }
+    }
+
+    /// @inheritdoc IPredictionResolver
+    function outcomeOf(
+        address market,
+        uint256 predictionId
+    ) external view returns (bool resolved, uint8 winningOption) {
+        Outcome storage outcome = _outcomes[market][predictionId];
+        return (outcome.resolved, outcome.winningOption);
+    }
+
+    /// @notice Returns the number of votes an option collected for a prediction
+    function votesFor(address market, uint256 predictionId, uint8 option) external view returns (uint256) {
+        return _votes[market][predictionId][option];
+    }
+
+    /// @notice Returns the list of signers allowed to vote
+    function signers() external view returns (address[] memory) {
+        return _signers;
+    }
+}
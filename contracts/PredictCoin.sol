@@ -3,12 +3,135 @@ pragma solidity ^0.8.27;
 
 import {ERC7984} from "confidential-contracts-v91/contracts/token/ERC7984/ERC7984.sol";
 import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
-import {FHE} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE, euint64} from "@fhevm/solidity/lib/FHE.sol";
 
 contract PredictCoin is ERC7984, ZamaEthereumConfig {
-    constructor() ERC7984("PCoin", "PCoin", "") {}
+    /// @notice Emitted when an account claims PredictCoin from the faucet
+    event FaucetClaimed(address indexed account, uint64 amount);
 
+    /// @notice Emitted when the owner changes the faucet amount or switches the faucet on or off
+    event FaucetUpdated(uint64 amount, bool enabled);
+
+    /// @notice Emitted when the owner mints PredictCoin outside the faucet
+    event SupplyMinted(address indexed to, uint64 amount);
+
+    /// @notice Emitted when the owner burns PredictCoin from its own balance
+    event SupplyBurned(address indexed from, euint64 encryptedAmount);
+
+    /// @notice Emitted when contract ownership changes
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+
+    error NotOwner(address caller);
+    error InvalidAddress();
+    error FaucetDisabled();
+    error FaucetCooldown(address account, uint64 nextClaimAt);
+    error FaucetDailyCapReached(uint64 dailyCap);
+    error FaucetAmountTooHigh(uint64 amount, uint64 dailyCap);
+
+    /// @notice Time an account must wait between two faucet claims
+    uint64 public constant FAUCET_COOLDOWN = 1 days;
+
+    /// @notice PredictCoin (6 decimals) the faucet mints across all accounts per UTC day
+    uint64 public constant FAUCET_DAILY_CAP = 10_000 * 1000000;
+
+    address public owner;
+    uint64 public faucetAmount = 100 * 1000000;
+    bool public faucetEnabled = true;
+
+    mapping(address account => uint64) private _lastFaucetClaim;
+    uint64 private _faucetDay;
+    uint64 private _faucetMintedToday;
+
+    constructor() ERC7984("PCoin", "PCoin", "") {
+        owner = msg.sender;
+        emit OwnershipTransferred(address(0), msg.sender);
+    }
+
+    /// @notice Mints `faucetAmount` to the caller, at most once per `FAUCET_COOLDOWN` and within the daily cap
     function faucet() public {
-        _mint(msg.sender, FHE.asEuint64(100*1000000));
+        if (!faucetEnabled) {
+            revert FaucetDisabled();
+        }
+        uint64 nextClaimAt = nextFaucetClaimAt(msg.sender);
+        if (block.timestamp < nextClaimAt) {
+            revert FaucetCooldown(msg.sender, nextClaimAt);
+        }
+        uint64 day = uint64(block.timestamp / 1 days);
+        if (day != _faucetDay) {
+            _faucetDay = day;
+            _faucetMintedToday = 0;
+        }
+        if (_faucetMintedToday + faucetAmount > FAUCET_DAILY_CAP) {
+            revert FaucetDailyCapReached(FAUCET_DAILY_CAP);
+        }
+
+        _faucetMintedToday += faucetAmount;
+        _lastFaucetClaim[msg.sender] = uint64(block.timestamp);
+        _mint(msg.sender, FHE.asEuint64(faucetAmount));
+        emit FaucetClaimed(msg.sender, faucetAmount);
+    }
+
+    /// @notice Returns when an account may claim from the faucet again (0 if it never claimed)
+    function nextFaucetClaimAt(address account) public view returns (uint64) {
+        uint64 lastClaim = _lastFaucetClaim[account];
+        return lastClaim == 0 ? 0 : lastClaim + FAUCET_COOLDOWN;
+    }
+
+    /// @notice Returns everything a UI needs to tell an account whether and when it can use the faucet
+    /// @return enabled Whether the faucet is switched on
+    /// @return amount PredictCoin minted per claim
+    /// @return nextClaimAt When the account may claim again (0 if it never claimed)
+    /// @return remainingToday PredictCoin the faucet can still mint before the daily cap resets at UTC midnight
+    function faucetStatus(
+        address account
+    ) external view returns (bool enabled, uint64 amount, uint64 nextClaimAt, uint64 remainingToday) {
+        uint64 mintedToday = _faucetDay == uint64(block.timestamp / 1 days) ? _faucetMintedToday : 0;
+        return (faucetEnabled, faucetAmount, nextFaucetClaimAt(account), FAUCET_DAILY_CAP - mintedToday);
+    }
+
+    /// @notice Sets the PredictCoin minted per faucet claim and switches the faucet on or off
+    /// @dev A claim larger than the daily cap could never be minted, so such amounts are rejected
+    function setFaucet(uint64 amount, bool enabled) external {
+        _checkOwner();
+        if (amount > FAUCET_DAILY_CAP) {
+            revert FaucetAmountTooHigh(amount, FAUCET_DAILY_CAP);
+        }
+        faucetAmount = amount;
+        faucetEnabled = enabled;
+        emit FaucetUpdated(amount, enabled);
+    }
+
+    /// @notice Mints PredictCoin outside the faucet, for treasury operations
+    function mint(address to, uint64 amount) external {
+        _checkOwner();
+        if (to == address(0)) {
+            revert InvalidAddress();
+        }
+        _mint(to, FHE.asEuint64(amount));
+        emit SupplyMinted(to, amount);
+    }
+
+    /// @notice Burns PredictCoin from the owner's balance
+    /// @dev Like any ERC7984 transfer, burns nothing if the encrypted balance is lower than `amount`
+    function burn(uint64 amount) external {
+        _checkOwner();
+        euint64 burned = _burn(msg.sender, FHE.asEuint64(amount));
+        emit SupplyBurned(msg.sender, burned);
+    }
+
+    /// @notice Transfers contract ownership
+    function transferOwnership(address newOwner) external {
+        _checkOwner();
+        if (newOwner == address(0)) {
+            revert InvalidAddress();
+        }
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    function _checkOwner() private view {
+        if (msg.sender != owner) {
+            revert NotOwner(msg.sender);
+        }
     }
 }
@@ -1,9 +1,10 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.27;
 
-import {FHE, ebool, euint64, euint8, externalEuint64, externalEuint8} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE, ebool, euint128, euint64, euint8, externalEuint64, externalEuint8} from "@fhevm/solidity/lib/FHE.sol";
 import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
 import {IERC7984} from "confidential-contracts-v91/contracts/interfaces/IERC7984.sol";
+import {IPredictionResolver} from "./interfaces/IPredictionResolver.sol";
 
 /// @title ZeroTrustPredict - Confidential prediction market built on PredictCoin
 /// @notice Users create encrypted predictions and place encrypted selections funded by PredictCoin stakes
@@ -17,55 +18,303 @@ contract ZeroTrustPredict is ZamaEthereumConfig {
     /// @notice Emitted after an encrypted selection is accepted
     event EncryptedSelectionPlaced(uint256 indexed predictionId, address indexed bettor, euint64 encryptedStake);
 
+    /// @notice Emitted when a bettor moves their whole position to a different encrypted option
+    event SelectionChanged(uint256 indexed predictionId, address indexed bettor);
+
+    /// @notice Emitted when a bettor adds stake to their current encrypted choice
+    event StakeIncreased(uint256 indexed predictionId, address indexed bettor, euint64 encryptedStake);
+
+    /// @notice Emitted with every stake a bettor adds; `moved` decrypts to false if no PredictCoin entered the pot,
+    ///         because the stake was zero, the option was out of range or the balance was too low
+    event StakeTransferResult(uint256 indexed predictionId, address indexed bettor, ebool moved);
+
+    /// @notice Emitted when the designated resolver (or the creator) proposes the winning option of a prediction
+    event OutcomeProposed(uint256 indexed predictionId, uint8 winningOption, uint64 disputeEndsAt);
+
+    /// @notice Emitted when a proposed outcome is challenged; `bondPosted` decrypts to false if the bond did not move
+    event ChallengeSubmitted(uint256 indexed predictionId, address indexed challenger, ebool bondPosted);
+
+    /// @notice Emitted when a challenge is dropped because its bond did not move
+    event ChallengeRejected(uint256 indexed predictionId, address indexed challenger);
+
+    /// @notice Emitted when a challenge's bond is confirmed and the proposed outcome goes to the arbiter
+    event OutcomeDisputed(uint256 indexed predictionId, address indexed challenger, euint64 encryptedBond);
+
+    /// @notice Emitted when the arbiter settles a dispute; `upheld` is true if the proposed outcome stands
+    event DisputeSettled(uint256 indexed predictionId, uint8 winningOption, bool upheld);
+
+    /// @notice Emitted once the outcome of a prediction is final and payouts can be prepared
+    event PredictionResolved(uint256 indexed predictionId, uint8 winningOption);
+
+    /// @notice Emitted when the fallback arbiter changes
+    event ArbiterUpdated(address indexed arbiter);
+
+    /// @notice Emitted when contract ownership changes
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+
+    /// @notice Emitted once the decrypted winning stake and payout pot are verified and payouts can be claimed
+    event PayoutTotalsPublished(uint256 indexed predictionId, uint64 winningStake, uint64 payoutPot);
+
+    /// @notice Emitted when protocol and creator fees are taken from a finalized pot
+    event FeesAccrued(uint256 indexed predictionId, euint64 protocolFee, euint64 creatorFee);
+
+    /// @notice Emitted when accrued fees are withdrawn by the treasury or a creator
+    event FeesWithdrawn(address indexed recipient, euint64 encryptedAmount);
+
+    /// @notice Emitted when the protocol fee for new predictions changes
+    event ProtocolFeeUpdated(uint16 feeBps);
+
+    /// @notice Emitted when the treasury receiving protocol fees changes
+    event TreasuryUpdated(address indexed treasury);
+
+    /// @notice Emitted when a bettor claims their encrypted payout (zero for losing choices)
+    event WinningsClaimed(uint256 indexed predictionId, address indexed bettor, euint64 encryptedPayout);
+
+    /// @notice Emitted when a prediction is cancelled and stakes become refundable
+    event PredictionCancelled(uint256 indexed predictionId, address indexed cancelledBy);
+
+    /// @notice Emitted when a bettor is refunded their encrypted stake from a cancelled prediction
+    event StakeRefunded(uint256 indexed predictionId, address indexed bettor, euint64 encryptedStake);
+
+    /// @notice Emitted when the final tallies of a closed prediction are made publicly decryptable
+    event TallyRevealRequested(uint256 indexed predictionId, address indexed requester);
+
+    /// @notice Emitted once the decrypted final tallies are verified and stored on-chain
+    event TalliesRevealed(uint256 indexed predictionId, uint64[] selections, uint64[] stakes, uint64 totalStake);
+
     error InvalidPredictionId(uint256 predictionId);
     error InvalidOptionCount(uint256 supplied);
     error InactivePrediction(uint256 predictionId);
+    error BettingClosed(uint256 predictionId, uint64 closesAt);
+    error InvalidCloseTime(uint64 closesAt);
+    error InvalidResolveDeadline(uint64 resolveBy);
+    error ResolutionDeadlinePassed(uint256 predictionId, uint64 resolveBy);
     error NotPredictionCreator(address caller);
+    error NotPredictionResolver(address caller);
+    error NoResolver(uint256 predictionId);
+    error OutcomeNotAvailable(uint256 predictionId);
+    error InvalidWinningOption(uint8 option);
+    error PredictionNotOpen(uint256 predictionId);
+    error PredictionNotResolved(uint256 predictionId);
+    error OutcomeNotProposed(uint256 predictionId);
+    error OutcomeNotDisputed(uint256 predictionId);
+    error ChallengePending(uint256 predictionId);
+    error NoPendingChallenge(uint256 predictionId);
+    error DisputeWindowClosed(uint256 predictionId, uint64 disputeEndsAt);
+    error DisputeWindowOpen(uint256 predictionId, uint64 disputeEndsAt);
+    error NotArbiter(address caller);
+    error NotOwner(address caller);
+    error InvalidAddress();
+    error FeeTooHigh(uint16 feeBps, uint16 maxFeeBps);
+    error NotTreasury(address caller);
+    error PredictionNotCancelled(uint256 predictionId);
+    error BettingStillOpen(uint256 predictionId);
+    error TallyRevealNotRequested(uint256 predictionId);
+    error TalliesAlreadyRevealed(uint256 predictionId);
+    error InvalidClearTallies(uint256 predictionId);
+    error PayoutsAlreadyPublished(uint256 predictionId);
+    error PayoutsNotPublished(uint256 predictionId);
+    error NothingToClaim(uint256 predictionId, address user);
+    error AlreadyClaimed(uint256 predictionId, address user);
+    error PositionAlreadyPlaced(uint256 predictionId, address user);
+    error NoPosition(uint256 predictionId, address user);
+    error TalliesNotShared(uint256 predictionId);
+    error NoFeesAccrued(address account);
 
     uint8 private constant MIN_OPTIONS = 2;
     uint8 private constant MAX_OPTIONS = 6;
 
+    /// @notice Time during which a proposed outcome can be challenged
+    uint64 public constant DISPUTE_WINDOW = 1 days;
+
+    /// @notice PredictCoin bond (6 decimals) a challenger must post to dispute an outcome
+    uint64 public constant DISPUTE_BOND = 10 * 1000000;
+
+    /// @notice Time the arbiter has to settle a dispute before anyone can cancel the prediction
+    uint64 public constant ARBITRATION_PERIOD = 7 days;
+
+    /// @notice Upper bounds for the protocol and creator fees, in basis points of the pot
+    uint16 public constant MAX_PROTOCOL_FEE_BPS = 500;
+    uint16 public constant MAX_CREATOR_FEE_BPS = 500;
+    uint16 private constant BPS_DENOMINATOR = 10000;
+
+    /// @notice Largest number of predictions returned by a single paginated view (including `ZeroTrustPredictLens`)
+    uint256 public constant MAX_PAGE_SIZE = 50;
+
+    /// @notice Lifecycle of a prediction once betting is over
+    /// @dev Outcomes move Open -> Proposed -> (Disputed ->) Finalized; only finalized outcomes pay out.
+    ///      `disputeEndsAt` closes the challenge window while Proposed and the arbiter's ruling period while Disputed.
+    enum PredictionState {
+        Open,
+        Proposed,
+        Disputed,
+        Finalized,
+        Cancelled
+    }
+
+    /// @notice Who may decrypt the running tallies while betting is open
+    /// @dev Final tallies of every prediction can still be revealed publicly once betting closes
+    enum TallyVisibility {
+        HiddenUntilClose,
+        CreatorOnly,
+        Bettors
+    }
+
     /// @notice Keeps the encrypted tally for a specific option
     struct OptionData {
         string label;
         euint64 encryptedSelections;
         euint64 encryptedStakeTotal;
+        uint64 revealedSelections;
+        uint64 revealedStakeTotal;
     }
 
     /// @notice Core prediction data stored on-chain
     struct Prediction {
         string title;
         address creator;
+        address resolver;
         bool active;
         uint64 createdAt;
+        uint64 closesAt;
+        uint64 resolveBy;
+        TallyVisibility tallyVisibility;
         euint64 encryptedTotalStake;
         OptionData[] options;
+        PredictionState state;
+        uint8 winningOption;
+        bool payoutsPublished;
+        uint64 clearWinningStake;
+        uint64 clearPayoutPot;
+        bool revealRequested;
+        bool talliesRevealed;
+        uint64 revealedTotalStake;
+        uint64 disputeEndsAt;
+        address challenger;
+        euint64 challengeBond;
+        ebool challengeBondPosted;
+        uint16 protocolFeeBps;
+        uint16 creatorFeeBps;
+        euint64 encryptedPayoutPot;
     }
 
     IERC7984 public immutable predictCoin;
+    address public owner;
+    address public arbiter;
+    address public treasury;
+    uint16 public protocolFeeBps;
     Prediction[] private _predictions;
+    mapping(address creator => uint256[]) private _creatorPredictionIds;
 
     mapping(uint256 predictionId => mapping(address user => euint64)) private _userStakes;
     mapping(uint256 predictionId => mapping(address user => euint8)) private _userChoices;
+    mapping(uint256 predictionId => mapping(address user => bool)) private _claimed;
+    mapping(uint256 predictionId => mapping(address user => ebool)) private _lastStakeMoved;
+    mapping(address user => uint256[]) private _userPredictionIds;
+
+    euint64 private _protocolFees;
+    mapping(address creator => euint64) private _creatorFees;
 
-    constructor(address predictCoinAddress) {
+    constructor(address predictCoinAddress, address arbiterAddress) {
         require(predictCoinAddress != address(0), "PredictCoin required");
+        if (arbiterAddress == address(0)) {
+            revert InvalidAddress();
+        }
         predictCoin = IERC7984(predictCoinAddress);
+        owner = msg.sender;
+        arbiter = arbiterAddress;
+        treasury = msg.sender;
+        emit OwnershipTransferred(address(0), msg.sender);
+        emit ArbiterUpdated(arbiterAddress);
+        emit TreasuryUpdated(msg.sender);
+    }
+
+    /// @notice Transfers contract ownership
+    function transferOwnership(address newOwner) external {
+        _checkOwner();
+        if (newOwner == address(0)) {
+            revert InvalidAddress();
+        }
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    /// @notice Sets the fallback arbiter that settles disputed outcomes
+    function setArbiter(address newArbiter) external {
+        _checkOwner();
+        if (newArbiter == address(0)) {
+            revert InvalidAddress();
+        }
+        arbiter = newArbiter;
+        emit ArbiterUpdated(newArbiter);
+    }
+
+    /// @notice Sets the protocol fee charged on the pot of predictions created from now on
+    function setProtocolFee(uint16 feeBps) external {
+        _checkOwner();
+        if (feeBps > MAX_PROTOCOL_FEE_BPS) {
+            revert FeeTooHigh(feeBps, MAX_PROTOCOL_FEE_BPS);
+        }
+        protocolFeeBps = feeBps;
+        emit ProtocolFeeUpdated(feeBps);
+    }
+
+    /// @notice Sets the treasury that may withdraw accrued protocol fees
+    function setTreasury(address newTreasury) external {
+        _checkOwner();
+        if (newTreasury == address(0)) {
+            revert InvalidAddress();
+        }
+        treasury = newTreasury;
+        if (FHE.isInitialized(_protocolFees)) {
+            FHE.allow(_protocolFees, newTreasury);
+        }
+        emit TreasuryUpdated(newTreasury);
     }
 
     /// @notice Creates a new prediction with between two and six options
-    function createPrediction(string calldata title, string[] calldata optionLabels) external returns (uint256) {
+    /// @param title The prediction title
+    /// @param optionLabels Labels for each option, in index order
+    /// @param closesAt Timestamp after which no more selections are accepted
+    /// @param resolveBy Optional timestamp by which the prediction must be resolved (0 for no deadline)
+    /// @param tallyVisibility Who may decrypt the running tallies while betting is open
+    /// @param resolver Optional `IPredictionResolver` that alone decides the outcome (zero to let the creator resolve)
+    /// @param creatorFeeBps Fee paid to the creator out of the pot, in basis points (at most `MAX_CREATOR_FEE_BPS`)
+    function createPrediction(
+        string calldata title,
+        string[] calldata optionLabels,
+        uint64 closesAt,
+        uint64 resolveBy,
+        TallyVisibility tallyVisibility,
+        address resolver,
+        uint16 creatorFeeBps
+    ) external returns (uint256) {
         uint256 optionsLength = optionLabels.length;
         if (optionsLength < MIN_OPTIONS || optionsLength > MAX_OPTIONS) {
             revert InvalidOptionCount(optionsLength);
         }
         require(bytes(title).length > 0, "Title required");
+        if (closesAt <= block.timestamp) {
+            revert InvalidCloseTime(closesAt);
+        }
+        if (resolveBy != 0 && resolveBy < closesAt) {
+            revert InvalidResolveDeadline(resolveBy);
+        }
+        if (creatorFeeBps > MAX_CREATOR_FEE_BPS) {
+            revert FeeTooHigh(creatorFeeBps, MAX_CREATOR_FEE_BPS);
+        }
 
         Prediction storage prediction = _predictions.push();
         prediction.title = title;
         prediction.creator = msg.sender;
+        prediction.resolver = resolver;
         prediction.active = true;
         prediction.createdAt = uint64(block.timestamp);
+        prediction.closesAt = closesAt;
+        prediction.resolveBy = resolveBy;
+        prediction.tallyVisibility = tallyVisibility;
+        prediction.protocolFeeBps = protocolFeeBps;
+        prediction.creatorFeeBps = creatorFeeBps;
         prediction.encryptedTotalStake = FHE.asEuint64(0);
         FHE.allowThis(prediction.encryptedTotalStake);
 
@@ -81,6 +330,7 @@ contract ZeroTrustPredict is ZamaEthereumConfig {
         }
 
         uint256 predictionId = _predictions.length - 1;
+        _creatorPredictionIds[msg.sender].push(predictionId);
         emit PredictionCreated(predictionId, msg.sender, title);
         return predictionId;
     }
@@ -91,11 +341,15 @@ contract ZeroTrustPredict is ZamaEthereumConfig {
         if (prediction.creator != msg.sender) {
             revert NotPredictionCreator(msg.sender);
         }
+        if (prediction.state != PredictionState.Open) {
+            revert PredictionNotOpen(predictionId);
+        }
         prediction.active = isActive;
         emit PredictionStatusChanged(predictionId, isActive);
     }
 
-    /// @notice Places an encrypted selection funded by PredictCoin
+    /// @notice Places the caller's first encrypted selection on a prediction, funded by PredictCoin
+    /// @dev Each bettor holds a single position; use `changeChoice` or `increaseStake` to adjust it
     /// @param predictionId The prediction identifier
     /// @param encryptedOption The encrypted option index (0-based)
     /// @param optionProof Proof created by the relayer SDK for the option
@@ -108,9 +362,9 @@ contract ZeroTrustPredict is ZamaEthereumConfig {
         externalEuint64 encryptedStake,
         bytes calldata stakeProof
     ) external {
-        Prediction storage prediction = _predictionById(predictionId);
-        if (!prediction.active) {
-            revert InactivePrediction(predictionId);
+        Prediction storage prediction = _openPrediction(predictionId);
+        if (FHE.isInitialized(_userStakes[predictionId][msg.sender])) {
+            revert PositionAlreadyPlaced(predictionId, msg.sender);
         }
 
         // Transfer PredictCoin using the encrypted stake amount; returns the encrypted value that moved
@@ -123,41 +377,459 @@ contract ZeroTrustPredict is ZamaEthereumConfig {
 
         euint8 optionValue = FHE.fromExternal(encryptedOption, optionProof);
 
-        prediction.encryptedTotalStake = FHE.add(prediction.encryptedTotalStake, transferredStake);
-        FHE.allowThis(prediction.encryptedTotalStake);
-        FHE.allow(prediction.encryptedTotalStake, msg.sender);
+        // Out-of-range option indices match no tally, so their stake is sent straight back to the bettor
+        ebool validOption = FHE.lt(optionValue, uint8(prediction.options.length));
+        euint64 acceptedStake = _returnRejectedStake(transferredStake, validOption);
+
+        prediction.encryptedTotalStake = FHE.add(prediction.encryptedTotalStake, acceptedStake);
+        _shareTally(prediction, prediction.encryptedTotalStake);
+
+        // An out-of-range choice is stored as is: it matches no option, so the bettor is not counted anywhere
+        _storeStake(predictionId, acceptedStake);
+        _storeChoice(predictionId, optionValue);
+        _addToTallies(prediction, optionValue, acceptedStake, true);
+        _userPredictionIds[msg.sender].push(predictionId);
+        _recordStakeResult(predictionId, acceptedStake);
+
+        emit EncryptedSelectionPlaced(predictionId, msg.sender, acceptedStake);
+    }
+
+    /// @notice Moves the caller's whole accumulated stake to a different encrypted option
+    /// @dev An out-of-range option leaves the current choice untouched
+    /// @param predictionId The prediction identifier
+    /// @param encryptedOption The encrypted new option index (0-based)
+    /// @param optionProof Proof created by the relayer SDK for the option
+    function changeChoice(uint256 predictionId, externalEuint8 encryptedOption, bytes calldata optionProof) external {
+        Prediction storage prediction = _openPrediction(predictionId);
+        euint64 userStake = _userStakes[predictionId][msg.sender];
+        if (!FHE.isInitialized(userStake)) {
+            revert NoPosition(predictionId, msg.sender);
+        }
+
+        euint8 optionValue = FHE.fromExternal(encryptedOption, optionProof);
+        euint8 previousChoice = _userChoices[predictionId][msg.sender];
+        ebool validOption = FHE.lt(optionValue, uint8(prediction.options.length));
+        euint8 newChoice = FHE.select(validOption, optionValue, previousChoice);
+
+        _storeChoice(predictionId, newChoice);
+        _moveTallies(prediction, previousChoice, newChoice, userStake);
+
+        emit SelectionChanged(predictionId, msg.sender);
+    }
+
+    /// @notice Adds PredictCoin stake to the caller's current encrypted choice
+    /// @dev If the current choice is out of range the added stake is sent straight back to the bettor
+    /// @param predictionId The prediction identifier
+    /// @param encryptedStake The encrypted PredictCoin amount to add
+    /// @param stakeProof Proof created by the relayer SDK for the stake
+    function increaseStake(uint256 predictionId, externalEuint64 encryptedStake, bytes calldata stakeProof) external {
+        Prediction storage prediction = _openPrediction(predictionId);
+        if (!FHE.isInitialized(_userStakes[predictionId][msg.sender])) {
+            revert NoPosition(predictionId, msg.sender);
+        }
+
+        euint64 transferredStake = predictCoin.confidentialTransferFrom(
+            msg.sender,
+            address(this),
+            encryptedStake,
+            stakeProof
+        );
+
+        euint8 currentChoice = _userChoices[predictionId][msg.sender];
+        ebool validChoice = FHE.lt(currentChoice, uint8(prediction.options.length));
+        euint64 acceptedStake = _returnRejectedStake(transferredStake, validChoice);
+
+        prediction.encryptedTotalStake = FHE.add(prediction.encryptedTotalStake, acceptedStake);
+        _shareTally(prediction, prediction.encryptedTotalStake);
+
+        _storeStake(predictionId, FHE.add(_userStakes[predictionId][msg.sender], acceptedStake));
+        _addToTallies(prediction, currentChoice, acceptedStake, false);
+        _recordStakeResult(predictionId, acceptedStake);
+
+        emit StakeIncreased(predictionId, msg.sender, acceptedStake);
+    }
+
+    /// @notice Proposes the winning option and closes the prediction for new selections
+    /// @dev Only the designated resolver may call this, or the creator when no resolver was set.
+    ///      The outcome becomes final once the dispute window passes unchallenged or the arbiter rules.
+    /// @param predictionId The prediction identifier
+    /// @param winningOption The 0-based index of the winning option
+    function resolvePrediction(uint256 predictionId, uint8 winningOption) external {
+        Prediction storage prediction = _predictionById(predictionId);
+        if (prediction.resolver == address(0)) {
+            if (prediction.creator != msg.sender) {
+                revert NotPredictionCreator(msg.sender);
+            }
+        } else if (prediction.resolver != msg.sender) {
+            revert NotPredictionResolver(msg.sender);
+        }
+        _proposeOutcome(predictionId, prediction, winningOption);
+    }
+
+    /// @notice Pulls the outcome from the designated resolver and proposes it
+    /// @dev Anyone may call this once the resolver reports an outcome
+    /// @param predictionId The prediction identifier
+    function pullResolution(uint256 predictionId) external {
+        Prediction storage prediction = _predictionById(predictionId);
+        if (prediction.resolver == address(0)) {
+            revert NoResolver(predictionId);
+        }
+        (bool resolved, uint8 winningOption) = IPredictionResolver(prediction.resolver).outcomeOf(
+            address(this),
+            predictionId
+        );
+        if (!resolved) {
+            revert OutcomeNotAvailable(predictionId);
+        }
+        _proposeOutcome(predictionId, prediction, winningOption);
+    }
+
+    /// @notice Challenges a proposed outcome by posting a `DISPUTE_BOND` PredictCoin bond
+    /// @dev The caller must have authorized this contract as a PredictCoin operator. PredictCoin moves nothing
+    ///      when the balance is too low, so the outcome is only disputed once `confirmChallenge` proves the bond
+    ///      moved. The bond is refunded if the arbiter overturns the outcome or never rules, and slashed to the
+    ///      owner if the outcome is upheld.
+    /// @param predictionId The prediction identifier
+    function challengeOutcome(uint256 predictionId) external {
+        Prediction storage prediction = _predictionById(predictionId);
+        if (prediction.state != PredictionState.Proposed) {
+            revert OutcomeNotProposed(predictionId);
+        }
+        if (prediction.challenger != address(0)) {
+            revert ChallengePending(predictionId);
+        }
+        if (block.timestamp >= prediction.disputeEndsAt) {
+            revert DisputeWindowClosed(predictionId, prediction.disputeEndsAt);
+        }
+
+        euint64 bond = FHE.asEuint64(DISPUTE_BOND);
+        FHE.allowTransient(bond, address(predictCoin));
+        euint64 postedBond = predictCoin.confidentialTransferFrom(msg.sender, address(this), bond);
+        FHE.allowThis(postedBond);
+        FHE.allow(postedBond, msg.sender);
+
+        ebool bondPosted = FHE.eq(postedBond, DISPUTE_BOND);
+        FHE.allowThis(bondPosted);
+        FHE.makePubliclyDecryptable(bondPosted);
+
+        prediction.challenger = msg.sender;
+        prediction.challengeBond = postedBond;
+        prediction.challengeBondPosted = bondPosted;
+
+        emit ChallengeSubmitted(predictionId, msg.sender, bondPosted);
+    }
+
+    /// @notice Disputes the outcome if the pending challenge's bond moved, or drops the challenge otherwise
+    /// @dev Anyone may call this, also after the challenge window closed
+    /// @param predictionId The prediction identifier
+    /// @param bondPosted Clear value of the challenge's `bondPosted` flag
+    /// @param decryptionProof Public decryption proof returned by the relayer for that flag
+    function confirmChallenge(uint256 predictionId, bool bondPosted, bytes calldata decryptionProof) external {
+        Prediction storage prediction = _predictionById(predictionId);
+        address challenger = prediction.challenger;
+        if (prediction.state != PredictionState.Proposed || challenger == address(0)) {
+            revert NoPendingChallenge(predictionId);
+        }
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(prediction.challengeBondPosted);
+        FHE.checkSignatures(handles, abi.encode(bondPosted), decryptionProof);
+
+        if (!bondPosted) {
+            prediction.challenger = address(0);
+            emit ChallengeRejected(predictionId, challenger);
+            return;
+        }
+        prediction.state = PredictionState.Disputed;
+        prediction.disputeEndsAt = uint64(block.timestamp) + ARBITRATION_PERIOD;
+
+        emit OutcomeDisputed(predictionId, challenger, prediction.challengeBond);
+    }
+
+    /// @notice Settles a disputed outcome and finalizes the prediction with the arbiter's ruling
+    /// @param predictionId The prediction identifier
+    /// @param winningOption The 0-based index of the option the arbiter considers the winner
+    function settleDispute(uint256 predictionId, uint8 winningOption) external {
+        if (msg.sender != arbiter) {
+            revert NotArbiter(msg.sender);
+        }
+        Prediction storage prediction = _predictionById(predictionId);
+        if (prediction.state != PredictionState.Disputed) {
+            revert OutcomeNotDisputed(predictionId);
+        }
+        if (winningOption >= prediction.options.length) {
+            revert InvalidWinningOption(winningOption);
+        }
+
+        bool upheld = winningOption == prediction.winningOption;
+        euint64 bond = prediction.challengeBond;
+        FHE.allowTransient(bond, address(predictCoin));
+        predictCoin.confidentialTransfer(upheld ? owner : prediction.challenger, bond);
+
+        prediction.winningOption = winningOption;
+        emit DisputeSettled(predictionId, winningOption, upheld);
+        _finalizeOutcome(predictionId, prediction);
+    }
+
+    /// @notice Finalizes a proposed outcome once its dispute window passed without a challenge
+    /// @param predictionId The prediction identifier
+    function finalizeOutcome(uint256 predictionId) external {
+        Prediction storage prediction = _predictionById(predictionId);
+        if (prediction.state != PredictionState.Proposed) {
+            revert OutcomeNotProposed(predictionId);
+        }
+        if (block.timestamp < prediction.disputeEndsAt) {
+            revert DisputeWindowOpen(predictionId, prediction.disputeEndsAt);
+        }
+        if (prediction.challenger != address(0)) {
+            revert ChallengePending(predictionId);
+        }
+        _finalizeOutcome(predictionId, prediction);
+    }
+
+    /// @notice Stores the decrypted winning stake and payout pot after verifying the KMS decryption proof
+    /// @param predictionId The prediction identifier
+    /// @param winningStake Clear stake total of the winning option
+    /// @param payoutPot Clear pot left for winners once protocol and creator fees are taken
+    /// @param decryptionProof Public decryption proof returned by the relayer for both handles
+    function publishPayoutTotals(
+        uint256 predictionId,
+        uint64 winningStake,
+        uint64 payoutPot,
+        bytes calldata decryptionProof
+    ) external {
+        Prediction storage prediction = _predictionById(predictionId);
+        if (prediction.state != PredictionState.Finalized) {
+            revert PredictionNotResolved(predictionId);
+        }
+        if (prediction.payoutsPublished) {
+            revert PayoutsAlreadyPublished(predictionId);
+        }
+
+        bytes32[] memory handles = new bytes32[](2);
+        handles[0] = FHE.toBytes32(prediction.options[prediction.winningOption].encryptedStakeTotal);
+        handles[1] = FHE.toBytes32(prediction.encryptedPayoutPot);
+        FHE.checkSignatures(handles, abi.encode(winningStake, payoutPot), decryptionProof);
+
+        prediction.payoutsPublished = true;
+        prediction.clearWinningStake = winningStake;
+        prediction.clearPayoutPot = payoutPot;
+
+        emit PayoutTotalsPublished(predictionId, winningStake, payoutPot);
+    }
+
+    /// @notice Pays the caller their pro-rata share of the payout pot if their encrypted choice won
+    /// @dev Losing bettors receive an encrypted zero so that claims do not reveal who won.
+    ///      If nobody backed the winning option no fees are taken and every bettor gets their own stake back.
+    /// @param predictionId The prediction identifier
+    function claimWinnings(uint256 predictionId) external {
+        Prediction storage prediction = _predictionById(predictionId);
+        if (prediction.state != PredictionState.Finalized) {
+            revert PredictionNotResolved(predictionId);
+        }
+        if (!prediction.payoutsPublished) {
+            revert PayoutsNotPublished(predictionId);
+        }
+        if (_claimed[predictionId][msg.sender]) {
+            revert AlreadyClaimed(predictionId, msg.sender);
+        }
+        euint64 userStake = _userStakes[predictionId][msg.sender];
+        if (!FHE.isInitialized(userStake)) {
+            revert NothingToClaim(predictionId, msg.sender);
+        }
+        _claimed[predictionId][msg.sender] = true;
+
+        euint64 payout;
+        if (prediction.clearWinningStake == 0) {
+            payout = userStake;
+        } else {
+            ebool isWinner = FHE.eq(_userChoices[predictionId][msg.sender], prediction.winningOption);
+            euint128 share = FHE.div(
+                FHE.mul(FHE.asEuint128(userStake), uint128(prediction.clearPayoutPot)),
+                uint128(prediction.clearWinningStake)
+            );
+            payout = FHE.select(isWinner, FHE.asEuint64(share), FHE.asEuint64(0));
+        }
+
+        FHE.allowTransient(payout, address(predictCoin));
+        euint64 transferred = predictCoin.confidentialTransfer(msg.sender, payout);
+
+        emit WinningsClaimed(predictionId, msg.sender, transferred);
+    }
+
+    /// @notice Cancels an open prediction so that every bettor can reclaim their stake
+    /// @dev Only the creator may cancel, unless the resolution deadline lapsed without a resolution,
+    ///      in which case anyone can cancel. Anyone can also cancel a dispute the arbiter did not settle
+    ///      within `ARBITRATION_PERIOD`, which returns the challenger's bond.
+    /// @param predictionId The prediction identifier
+    function cancelPrediction(uint256 predictionId) external {
+        Prediction storage prediction = _predictionById(predictionId);
+        bool arbitrationLapsed = prediction.state == PredictionState.Disputed &&
+            block.timestamp > prediction.disputeEndsAt;
+        if (prediction.state != PredictionState.Open && !arbitrationLapsed) {
+            revert PredictionNotOpen(predictionId);
+        }
+        bool deadlineLapsed = prediction.resolveBy != 0 && block.timestamp > prediction.resolveBy;
+        if (prediction.creator != msg.sender && !deadlineLapsed && !arbitrationLapsed) {
+            revert NotPredictionCreator(msg.sender);
+        }
+        if (arbitrationLapsed) {
+            euint64 bond = prediction.challengeBond;
+            FHE.allowTransient(bond, address(predictCoin));
+            predictCoin.confidentialTransfer(prediction.challenger, bond);
+        }
+
+        prediction.state = PredictionState.Cancelled;
+        if (prediction.active) {
+            prediction.active = false;
+            emit PredictionStatusChanged(predictionId, false);
+        }
+
+        emit PredictionCancelled(predictionId, msg.sender);
+    }
+
+    /// @notice Returns the caller's full encrypted stake from a cancelled prediction
+    /// @param predictionId The prediction identifier
+    function refund(uint256 predictionId) external {
+        Prediction storage prediction = _predictionById(predictionId);
+        if (prediction.state != PredictionState.Cancelled) {
+            revert PredictionNotCancelled(predictionId);
+        }
+        if (_claimed[predictionId][msg.sender]) {
+            revert AlreadyClaimed(predictionId, msg.sender);
+        }
+        euint64 userStake = _userStakes[predictionId][msg.sender];
+        if (!FHE.isInitialized(userStake)) {
+            revert NothingToClaim(predictionId, msg.sender);
+        }
+        _claimed[predictionId][msg.sender] = true;
+
+        FHE.allowTransient(userStake, address(predictCoin));
+        euint64 transferred = predictCoin.confidentialTransfer(msg.sender, userStake);
+
+        emit StakeRefunded(predictionId, msg.sender, transferred);
+    }
+
+    /// @notice Sends all accrued protocol fees to the treasury
+    function withdrawProtocolFees() external {
+        if (msg.sender != treasury) {
+            revert NotTreasury(msg.sender);
+        }
+        euint64 amount = _protocolFees;
+        if (!FHE.isInitialized(amount)) {
+            revert NoFeesAccrued(msg.sender);
+        }
+        _protocolFees = FHE.asEuint64(0);
+        FHE.allowThis(_protocolFees);
+        FHE.allow(_protocolFees, msg.sender);
+
+        FHE.allowTransient(amount, address(predictCoin));
+        euint64 transferred = predictCoin.confidentialTransfer(msg.sender, amount);
+        emit FeesWithdrawn(msg.sender, transferred);
+    }
 
-        // Track per-user encrypted stake and most recent encrypted choice
-        euint64 updatedUserStake = FHE.add(_userStakes[predictionId][msg.sender], transferredStake);
-        _userStakes[predictionId][msg.sender] = updatedUserStake;
-        FHE.allowThis(updatedUserStake);
-        FHE.allow(updatedUserStake, msg.sender);
+    /// @notice Sends all creator fees accrued by the caller's predictions to the caller
+    function withdrawCreatorFees() external {
+        euint64 amount = _creatorFees[msg.sender];
+        if (!FHE.isInitialized(amount)) {
+            revert NoFeesAccrued(msg.sender);
+        }
+        _creatorFees[msg.sender] = FHE.asEuint64(0);
+        FHE.allowThis(_creatorFees[msg.sender]);
+        FHE.allow(_creatorFees[msg.sender], msg.sender);
 
-        _userChoices[predictionId][msg.sender] = optionValue;
-        FHE.allowThis(optionValue);
-        FHE.allow(optionValue, msg.sender);
+        FHE.allowTransient(amount, address(predictCoin));
+        euint64 transferred = predictCoin.confidentialTransfer(msg.sender, amount);
+        emit FeesWithdrawn(msg.sender, transferred);
+    }
+
+    /// @notice Gives the caller access to the current tally handles of a `Bettors` prediction they hold a position in
+    /// @dev Every bet replaces the tally handles and only the acting bettor is allowed on the new ones, so the other
+    ///      bettors pull access here instead of every bet paying to share with all of them
+    /// @param predictionId The prediction identifier
+    function grantTallyAccess(uint256 predictionId) external {
+        Prediction storage prediction = _predictionById(predictionId);
+        if (prediction.tallyVisibility != TallyVisibility.Bettors) {
+            revert TalliesNotShared(predictionId);
+        }
+        if (!FHE.isInitialized(_userStakes[predictionId][msg.sender])) {
+            revert NoPosition(predictionId, msg.sender);
+        }
 
         uint256 optionCount = prediction.options.length;
         for (uint256 i = 0; i < optionCount; i++) {
-            OptionData storage optionData = prediction.options[i];
-            ebool matches = FHE.eq(optionValue, FHE.asEuint8(uint8(i)));
+            FHE.allow(prediction.options[i].encryptedSelections, msg.sender);
+            FHE.allow(prediction.options[i].encryptedStakeTotal, msg.sender);
+        }
+        FHE.allow(prediction.encryptedTotalStake, msg.sender);
+    }
 
-            optionData.encryptedSelections = FHE.add(
-                optionData.encryptedSelections,
-                FHE.select(matches, FHE.asEuint64(1), FHE.asEuint64(0))
-            );
-            FHE.allowThis(optionData.encryptedSelections);
-            FHE.allow(optionData.encryptedSelections, msg.sender);
+    /// @notice Makes the final per-option tallies and the pot of a closed prediction publicly decryptable
+    /// @param predictionId The prediction identifier
+    function requestTallyReveal(uint256 predictionId) external {
+        Prediction storage prediction = _predictionById(predictionId);
+        if (prediction.state == PredictionState.Open && block.timestamp < prediction.closesAt) {
+            revert BettingStillOpen(predictionId);
+        }
+        if (prediction.talliesRevealed) {
+            revert TalliesAlreadyRevealed(predictionId);
+        }
 
-            optionData.encryptedStakeTotal = FHE.add(
-                optionData.encryptedStakeTotal,
-                FHE.select(matches, transferredStake, FHE.asEuint64(0))
-            );
-            FHE.allowThis(optionData.encryptedStakeTotal);
-            FHE.allow(optionData.encryptedStakeTotal, msg.sender);
+        uint256 optionCount = prediction.options.length;
+        for (uint256 i = 0; i < optionCount; i++) {
+            FHE.makePubliclyDecryptable(prediction.options[i].encryptedSelections);
+            FHE.makePubliclyDecryptable(prediction.options[i].encryptedStakeTotal);
+        }
+        FHE.makePubliclyDecryptable(prediction.encryptedTotalStake);
+        prediction.revealRequested = true;
+
+        emit TallyRevealRequested(predictionId, msg.sender);
+    }
+
+    /// @notice Stores the decrypted final tallies after verifying the KMS decryption proof
+    /// @param predictionId The prediction identifier
+    /// @param abiEncodedClearValues Clear values returned by the relayer, ordered as all selection counts,
+    ///        then all option stake totals, then the pot
+    /// @param decryptionProof Public decryption proof returned by the relayer for those handles
+    function revealTallies(
+        uint256 predictionId,
+        bytes calldata abiEncodedClearValues,
+        bytes calldata decryptionProof
+    ) external {
+        Prediction storage prediction = _predictionById(predictionId);
+        if (!prediction.revealRequested) {
+            revert TallyRevealNotRequested(predictionId);
+        }
+        if (prediction.talliesRevealed) {
+            revert TalliesAlreadyRevealed(predictionId);
+        }
+
+        uint256 optionCount = prediction.options.length;
+        if (abiEncodedClearValues.length != (optionCount * 2 + 1) * 32) {
+            revert InvalidClearTallies(predictionId);
+        }
+
+        bytes32[] memory handles = new bytes32[](optionCount * 2 + 1);
+        for (uint256 i = 0; i < optionCount; i++) {
+            handles[i] = FHE.toBytes32(prediction.options[i].encryptedSelections);
+            handles[optionCount + i] = FHE.toBytes32(prediction.options[i].encryptedStakeTotal);
+        }
+        handles[optionCount * 2] = FHE.toBytes32(prediction.encryptedTotalStake);
+        FHE.checkSignatures(handles, abiEncodedClearValues, decryptionProof);
+
+        uint64[] memory selections = new uint64[](optionCount);
+        uint64[] memory stakes = new uint64[](optionCount);
+        for (uint256 i = 0; i < optionCount; i++) {
+            selections[i] = _clearValueAt(abiEncodedClearValues, i);
+            stakes[i] = _clearValueAt(abiEncodedClearValues, optionCount + i);
+            prediction.options[i].revealedSelections = selections[i];
+            prediction.options[i].revealedStakeTotal = stakes[i];
         }
+        uint64 totalStake = _clearValueAt(abiEncodedClearValues, optionCount * 2);
+        prediction.revealedTotalStake = totalStake;
+        prediction.talliesRevealed = true;
 
-        emit EncryptedSelectionPlaced(predictionId, msg.sender, transferredStake);
+        emit TalliesRevealed(predictionId, selections, stakes, totalStake);
     }
 
     /// @notice Returns the number of predictions created so far
@@ -174,6 +846,9 @@ contract ZeroTrustPredict is ZamaEthereumConfig {
             address creator,
             bool active,
             uint64 createdAt,
+            uint64 closesAt,
+            uint64 resolveBy,
+            TallyVisibility tallyVisibility,
             string[] memory optionLabels,
             euint64[] memory encryptedSelections,
             euint64[] memory encryptedStakes,
@@ -199,6 +874,9 @@ contract ZeroTrustPredict is ZamaEthereumConfig {
             prediction.creator,
             prediction.active,
             prediction.createdAt,
+            prediction.closesAt,
+            prediction.resolveBy,
+            prediction.tallyVisibility,
             optionLabels,
             encryptedSelections,
             encryptedStakes,
@@ -206,21 +884,386 @@ contract ZeroTrustPredict is ZamaEthereumConfig {
         );
     }
 
+    /// @notice Returns the identifiers of predictions that currently accept selections among the `limit`
+    ///         predictions created from `offset` on
+    /// @dev `limit` is capped at `MAX_PAGE_SIZE`, so a page may hold fewer ids than scanned, or none; pass
+    ///      `nextOffset` back as `offset` to continue until it equals `predictionsCount()`
+    /// @return ids The identifiers of the accepting predictions found
+    /// @return nextOffset The identifier at which the next scan should start
+    function getActivePredictionIds(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory ids, uint256 nextOffset) {
+        uint256 total = _predictions.length;
+        if (offset >= total) {
+            return (new uint256[](0), total);
+        }
+        uint256 scanned = total - offset;
+        if (limit < scanned) {
+            scanned = limit;
+        }
+        if (scanned > MAX_PAGE_SIZE) {
+            scanned = MAX_PAGE_SIZE;
+        }
+        nextOffset = offset + scanned;
+
+        uint256[] memory found = new uint256[](scanned);
+        uint256 count = 0;
+        for (uint256 id = offset; id < nextOffset; id++) {
+            if (_acceptsSelections(_predictions[id])) {
+                found[count++] = id;
+            }
+        }
+
+        ids = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            ids[i] = found[i];
+        }
+    }
+
+    /// @notice Returns the resolution state of a prediction, its clear payout totals once published, its resolver
+    ///         and the dispute window of a proposed outcome (or the arbiter's deadline of a disputed one)
+    /// @dev A proposed outcome with a `challenger` has a challenge waiting for `confirmChallenge`
+    function getResolution(uint256 predictionId)
+        external
+        view
+        returns (
+            PredictionState state,
+            uint8 winningOption,
+            bool payoutsPublished,
+            uint64 winningStake,
+            uint64 payoutPot,
+            address resolver,
+            uint64 disputeEndsAt,
+            address challenger
+        )
+    {
+        Prediction storage prediction = _predictionById(predictionId);
+        return (
+            prediction.state,
+            prediction.winningOption,
+            prediction.payoutsPublished,
+            prediction.clearWinningStake,
+            prediction.clearPayoutPot,
+            prediction.resolver,
+            prediction.disputeEndsAt,
+            prediction.challenger
+        );
+    }
+
+    /// @notice Returns the publicly revealed final tallies of a prediction, if any
+    function getRevealedTallies(uint256 predictionId)
+        external
+        view
+        returns (
+            bool revealRequested,
+            bool talliesRevealed,
+            uint64[] memory selections,
+            uint64[] memory stakes,
+            uint64 totalStake
+        )
+    {
+        Prediction storage prediction = _predictionById(predictionId);
+        uint256 optionCount = prediction.options.length;
+
+        selections = new uint64[](optionCount);
+        stakes = new uint64[](optionCount);
+        for (uint256 i = 0; i < optionCount; i++) {
+            selections[i] = prediction.options[i].revealedSelections;
+            stakes[i] = prediction.options[i].revealedStakeTotal;
+        }
+
+        return (
+            prediction.revealRequested,
+            prediction.talliesRevealed,
+            selections,
+            stakes,
+            prediction.revealedTotalStake
+        );
+    }
+
+    /// @notice Returns whether an account may decrypt every current tally handle of a prediction
+    function canDecryptTallies(uint256 predictionId, address account) external view returns (bool) {
+        Prediction storage prediction = _predictionById(predictionId);
+        if (!FHE.isAllowed(prediction.encryptedTotalStake, account)) {
+            return false;
+        }
+        uint256 optionCount = prediction.options.length;
+        for (uint256 i = 0; i < optionCount; i++) {
+            OptionData storage optionData = prediction.options[i];
+            if (
+                !FHE.isAllowed(optionData.encryptedSelections, account) ||
+                !FHE.isAllowed(optionData.encryptedStakeTotal, account)
+            ) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /// @notice Returns the identifiers of every prediction created by `creator`, in creation order
+    function getCreatorPredictionIds(address creator) external view returns (uint256[] memory) {
+        return _creatorPredictionIds[creator];
+    }
+
+    /// @notice Returns the identifiers of every prediction `user` has placed a position on, in the order they bet
+    function getUserPredictionIds(address user) external view returns (uint256[] memory) {
+        return _userPredictionIds[user];
+    }
+
+    /// @notice Returns the protocol and creator fees charged on a prediction's pot, in basis points
+    function getFees(uint256 predictionId) external view returns (uint16 protocolFee, uint16 creatorFee) {
+        Prediction storage prediction = _predictionById(predictionId);
+        return (prediction.protocolFeeBps, prediction.creatorFeeBps);
+    }
+
+    /// @notice Returns the encrypted pot left for winners once a prediction is finalized and its fees are taken
+    function getPayoutPot(uint256 predictionId) external view returns (euint64) {
+        return _predictionById(predictionId).encryptedPayoutPot;
+    }
+
+    /// @notice Returns the encrypted protocol fees accrued for the treasury
+    function protocolFeeBalance() external view returns (euint64) {
+        return _protocolFees;
+    }
+
+    /// @notice Returns the encrypted creator fees accrued for a creator
+    function creatorFeeBalance(address creator) external view returns (euint64) {
+        return _creatorFees[creator];
+    }
+
+    /// @notice Returns the encrypted bond posted by the challenger of a prediction's outcome
+    function getChallengeBond(uint256 predictionId) external view returns (euint64) {
+        return _predictionById(predictionId).challengeBond;
+    }
+
+    /// @notice Returns the encrypted flag telling whether the pending challenge's bond moved, publicly decryptable
+    function getChallengeBondPosted(uint256 predictionId) external view returns (ebool) {
+        return _predictionById(predictionId).challengeBondPosted;
+    }
+
+    /// @notice Returns whether a user already claimed their payout or refund for a prediction
+    function hasClaimed(uint256 predictionId, address user) external view returns (bool) {
+        return _claimed[predictionId][user];
+    }
+
     /// @notice Returns the encrypted stake stored for a user inside a prediction
     function getUserStake(uint256 predictionId, address user) external view returns (euint64) {
         return _userStakes[predictionId][user];
     }
 
-    /// @notice Returns the last encrypted choice submitted by a user for a prediction
+    /// @notice Returns the encrypted option currently backed by a user for a prediction
+    /// @dev A value outside the option range means the user's first selection was rejected and is not counted
     function getUserChoice(uint256 predictionId, address user) external view returns (euint8) {
         return _userChoices[predictionId][user];
     }
 
+    /// @notice Returns whether the user's latest stake on a prediction actually moved, as an encrypted flag
+    /// @dev False for a zero stake, for an out-of-range option whose stake was sent back, and for a balance below
+    ///      the stake, since ERC7984 transfers zero instead of reverting when the encrypted balance is too low
+    function getLastStakeResult(uint256 predictionId, address user) external view returns (ebool) {
+        return _lastStakeMoved[predictionId][user];
+    }
+
     /// @notice Returns the PredictCoin address that funds all selections
     function predictCoinAddress() external view returns (address) {
         return address(predictCoin);
     }
 
+    /// @dev Records the proposed outcome and opens its dispute window
+    function _proposeOutcome(uint256 predictionId, Prediction storage prediction, uint8 winningOption) private {
+        if (prediction.state != PredictionState.Open) {
+            revert PredictionNotOpen(predictionId);
+        }
+        if (winningOption >= prediction.options.length) {
+            revert InvalidWinningOption(winningOption);
+        }
+        if (prediction.resolveBy != 0 && block.timestamp > prediction.resolveBy) {
+            revert ResolutionDeadlinePassed(predictionId, prediction.resolveBy);
+        }
+
+        prediction.state = PredictionState.Proposed;
+        prediction.winningOption = winningOption;
+        prediction.disputeEndsAt = uint64(block.timestamp) + DISPUTE_WINDOW;
+        if (prediction.active) {
+            prediction.active = false;
+            emit PredictionStatusChanged(predictionId, false);
+        }
+
+        emit OutcomeProposed(predictionId, winningOption, prediction.disputeEndsAt);
+    }
+
+    /// @dev Finalizes the outcome, takes the fees and makes the winning option's stake total and the payout pot
+    ///      publicly decryptable so that payouts can be computed with clear divisors in `publishPayoutTotals`
+    function _finalizeOutcome(uint256 predictionId, Prediction storage prediction) private {
+        prediction.state = PredictionState.Finalized;
+
+        euint64 winningStake = prediction.options[prediction.winningOption].encryptedStakeTotal;
+        _takeFees(predictionId, prediction, FHE.gt(winningStake, FHE.asEuint64(0)));
+
+        FHE.makePubliclyDecryptable(winningStake);
+        FHE.makePubliclyDecryptable(prediction.encryptedPayoutPot);
+
+        emit PredictionResolved(predictionId, prediction.winningOption);
+    }
+
+    /// @dev Charges the protocol and creator fees on the encrypted pot and accrues them as encrypted balances.
+    ///      Nothing is charged when nobody backed the winning option, since every stake is then refunded.
+    function _takeFees(uint256 predictionId, Prediction storage prediction, ebool hasWinners) private {
+        euint64 pot = prediction.encryptedTotalStake;
+        euint64 protocolFee = FHE.select(hasWinners, _feeOf(pot, prediction.protocolFeeBps), FHE.asEuint64(0));
+        euint64 creatorFee = FHE.select(hasWinners, _feeOf(pot, prediction.creatorFeeBps), FHE.asEuint64(0));
+
+        prediction.encryptedPayoutPot = FHE.sub(FHE.sub(pot, protocolFee), creatorFee);
+        FHE.allowThis(prediction.encryptedPayoutPot);
+
+        _protocolFees = FHE.add(_protocolFees, protocolFee);
+        FHE.allowThis(_protocolFees);
+        FHE.allow(_protocolFees, treasury);
+
+        address creator = prediction.creator;
+        _creatorFees[creator] = FHE.add(_creatorFees[creator], creatorFee);
+        FHE.allowThis(_creatorFees[creator]);
+        FHE.allow(_creatorFees[creator], creator);
+
+        FHE.allow(protocolFee, treasury);
+        FHE.allow(creatorFee, creator);
+        emit FeesAccrued(predictionId, protocolFee, creatorFee);
+    }
+
+    /// @dev Returns `feeBps` basis points of an encrypted amount, rounded down
+    function _feeOf(euint64 amount, uint16 feeBps) private returns (euint64) {
+        return FHE.asEuint64(FHE.div(FHE.mul(FHE.asEuint128(amount), uint128(feeBps)), uint128(BPS_DENOMINATOR)));
+    }
+
+    /// @dev Sends the stake back to the bettor when the option is invalid and returns the stake that stays in the pot
+    function _returnRejectedStake(euint64 transferredStake, ebool validOption) private returns (euint64) {
+        euint64 rejectedStake = FHE.select(validOption, FHE.asEuint64(0), transferredStake);
+        FHE.allowTransient(rejectedStake, address(predictCoin));
+        predictCoin.confidentialTransfer(msg.sender, rejectedStake);
+
+        euint64 acceptedStake = FHE.select(validOption, transferredStake, FHE.asEuint64(0));
+        FHE.allow(acceptedStake, msg.sender);
+        return acceptedStake;
+    }
+
+    /// @dev Flags whether any of the caller's stake stayed in the pot, readable by the contract and the caller
+    function _recordStakeResult(uint256 predictionId, euint64 acceptedStake) private {
+        ebool moved = FHE.gt(acceptedStake, uint64(0));
+        _lastStakeMoved[predictionId][msg.sender] = moved;
+        FHE.allowThis(moved);
+        FHE.allow(moved, msg.sender);
+        emit StakeTransferResult(predictionId, msg.sender, moved);
+    }
+
+    /// @dev Stores the caller's encrypted stake and keeps it readable by the contract and the caller
+    function _storeStake(uint256 predictionId, euint64 userStake) private {
+        _userStakes[predictionId][msg.sender] = userStake;
+        FHE.allowThis(userStake);
+        FHE.allow(userStake, msg.sender);
+    }
+
+    /// @dev Stores the caller's encrypted choice and keeps it readable by the contract and the caller
+    function _storeChoice(uint256 predictionId, euint8 choice) private {
+        _userChoices[predictionId][msg.sender] = choice;
+        FHE.allowThis(choice);
+        FHE.allow(choice, msg.sender);
+    }
+
+    /// @dev Adds the stake (and one selection for a new bettor) to whichever option matches the encrypted choice
+    function _addToTallies(
+        Prediction storage prediction,
+        euint8 optionValue,
+        euint64 acceptedStake,
+        bool newBettor
+    ) private {
+        uint256 optionCount = prediction.options.length;
+        for (uint256 i = 0; i < optionCount; i++) {
+            OptionData storage optionData = prediction.options[i];
+            ebool matches = FHE.eq(optionValue, FHE.asEuint8(uint8(i)));
+
+            if (newBettor) {
+                optionData.encryptedSelections = FHE.add(
+                    optionData.encryptedSelections,
+                    FHE.select(matches, FHE.asEuint64(1), FHE.asEuint64(0))
+                );
+                _shareTally(prediction, optionData.encryptedSelections);
+            }
+
+            optionData.encryptedStakeTotal = FHE.add(
+                optionData.encryptedStakeTotal,
+                FHE.select(matches, acceptedStake, FHE.asEuint64(0))
+            );
+            _shareTally(prediction, optionData.encryptedStakeTotal);
+        }
+    }
+
+    /// @dev Moves one selection and the whole user stake from the option matching `fromChoice` to `toChoice`
+    function _moveTallies(
+        Prediction storage prediction,
+        euint8 fromChoice,
+        euint8 toChoice,
+        euint64 userStake
+    ) private {
+        uint256 optionCount = prediction.options.length;
+        for (uint256 i = 0; i < optionCount; i++) {
+            OptionData storage optionData = prediction.options[i];
+            ebool leaving = FHE.eq(fromChoice, FHE.asEuint8(uint8(i)));
+            ebool joining = FHE.eq(toChoice, FHE.asEuint8(uint8(i)));
+
+            // Add before subtracting so that the encrypted tallies never underflow
+            optionData.encryptedSelections = FHE.sub(
+                FHE.add(optionData.encryptedSelections, FHE.select(joining, FHE.asEuint64(1), FHE.asEuint64(0))),
+                FHE.select(leaving, FHE.asEuint64(1), FHE.asEuint64(0))
+            );
+            _shareTally(prediction, optionData.encryptedSelections);
+
+            optionData.encryptedStakeTotal = FHE.sub(
+                FHE.add(optionData.encryptedStakeTotal, FHE.select(joining, userStake, FHE.asEuint64(0))),
+                FHE.select(leaving, userStake, FHE.asEuint64(0))
+            );
+            _shareTally(prediction, optionData.encryptedStakeTotal);
+        }
+    }
+
+    /// @dev Grants the contract access to an updated tally and shares it according to the visibility policy.
+    ///      In `Bettors` mode only the acting bettor gets the new handle; the others pull it via `grantTallyAccess`.
+    function _shareTally(Prediction storage prediction, euint64 tally) private {
+        FHE.allowThis(tally);
+        if (prediction.tallyVisibility == TallyVisibility.Bettors) {
+            FHE.allow(tally, msg.sender);
+        } else if (prediction.tallyVisibility == TallyVisibility.CreatorOnly) {
+            FHE.allow(tally, prediction.creator);
+        }
+    }
+
+    /// @dev Reads the `index`-th 32-byte word of an ABI-encoded list of clear euint64 values
+    function _clearValueAt(bytes calldata abiEncodedClearValues, uint256 index) private pure returns (uint64) {
+        return abi.decode(abiEncodedClearValues[index * 32:(index + 1) * 32], (uint64));
+    }
+
+    /// @dev Whether a prediction currently accepts new selections (see `_openPrediction`)
+    function _acceptsSelections(Prediction storage prediction) private view returns (bool) {
+        return prediction.active && prediction.state == PredictionState.Open && block.timestamp < prediction.closesAt;
+    }
+
+    /// @dev Returns a prediction that currently accepts selections, reverting otherwise
+    function _openPrediction(uint256 predictionId) private view returns (Prediction storage prediction) {
+        prediction = _predictionById(predictionId);
+        if (!prediction.active || prediction.state != PredictionState.Open) {
+            revert InactivePrediction(predictionId);
+        }
+        if (block.timestamp >= prediction.closesAt) {
+            revert BettingClosed(predictionId, prediction.closesAt);
+        }
+    }
+
+    function _checkOwner() private view {
+        if (msg.sender != owner) {
+            revert NotOwner(msg.sender);
+        }
+    }
+
     function _predictionById(uint256 predictionId) private view returns (Prediction storage) {
         if (predictionId >= _predictions.length) {
             revert InvalidPredictionId(predictionId);
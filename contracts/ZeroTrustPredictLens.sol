@@ -0,0 +1,177 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.27;
+
+import {FHE, euint64, euint8} from "@fhevm/solidity/lib/FHE.sol";
+import {ZeroTrustPredict} from "./ZeroTrustPredict.sol";
+
+/// @title ZeroTrustPredictLens - Batch read views over a ZeroTrustPredict market
+/// @notice Aggregates the market's per-prediction getters into paginated summaries and per-user positions, so
+///         that frontends load a page of markets in one call. Kept apart from the market to stay within the
+///         contract size limit; it holds no state besides the market address.
+contract ZeroTrustPredictLens {
+    /// @notice Flattened prediction metadata and resolution state
+    struct PredictionSummary {
+        uint256 id;
+        string title;
+        address creator;
+        bool active;
+        uint64 createdAt;
+        uint64 closesAt;
+        uint64 resolveBy;
+        ZeroTrustPredict.TallyVisibility tallyVisibility;
+        string[] optionLabels;
+        euint64[] encryptedSelections;
+        euint64[] encryptedStakes;
+        euint64 totalEncryptedStake;
+        ZeroTrustPredict.PredictionState state;
+        uint8 winningOption;
+        bool payoutsPublished;
+        uint64 winningStake;
+        uint64 payoutPot;
+        address resolver;
+        uint64 disputeEndsAt;
+        address challenger;
+        uint16 protocolFeeBps;
+        uint16 creatorFeeBps;
+        bool revealRequested;
+    }
+
+    /// @notice A user's encrypted position on one prediction
+    struct UserPosition {
+        uint256 predictionId;
+        euint64 stake;
+        euint8 choice;
+        bool participated;
+        bool claimed;
+        bool canDecryptTallies;
+    }
+
+    ZeroTrustPredict public immutable market;
+
+    constructor(address marketAddress) {
+        require(marketAddress != address(0), "Market required");
+        market = ZeroTrustPredict(marketAddress);
+    }
+
+    /// @notice Returns up to `limit` predictions starting at `offset`, in creation order
+    /// @dev `limit` is capped at the market's `MAX_PAGE_SIZE`; an `offset` past the end returns an empty page
+    /// @return page The prediction summaries
+    /// @return total The number of predictions created so far
+    function getPredictionsPage(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (PredictionSummary[] memory page, uint256 total) {
+        total = market.predictionsCount();
+        page = new PredictionSummary[](_pageLength(offset, limit, total));
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = _summaryOf(offset + i);
+        }
+    }
+
+    /// @notice Returns up to `limit` predictions created by `creator`, starting at the creator's `offset`-th one
+    /// @return page The prediction summaries, in creation order
+    /// @return total The number of predictions created by `creator`
+    function getPredictionsByCreator(
+        address creator,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (PredictionSummary[] memory page, uint256 total) {
+        uint256[] memory ids = market.getCreatorPredictionIds(creator);
+        total = ids.length;
+        page = new PredictionSummary[](_pageLength(offset, limit, total));
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = _summaryOf(ids[offset + i]);
+        }
+    }
+
+    /// @notice Returns the summaries of the given predictions, in the order requested
+    function getPredictionSummaries(
+        uint256[] calldata predictionIds
+    ) external view returns (PredictionSummary[] memory summaries) {
+        summaries = new PredictionSummary[](predictionIds.length);
+        for (uint256 i = 0; i < predictionIds.length; i++) {
+            summaries[i] = _summaryOf(predictionIds[i]);
+        }
+    }
+
+    /// @notice Returns `user`'s encrypted stake and choice handles, claim status and tally access for each prediction
+    /// @dev `participated` is false (and both handles are zero) for predictions the user never bet on
+    function getUserPositions(
+        address user,
+        uint256[] calldata predictionIds
+    ) external view returns (UserPosition[] memory positions) {
+        positions = new UserPosition[](predictionIds.length);
+        for (uint256 i = 0; i < predictionIds.length; i++) {
+            uint256 predictionId = predictionIds[i];
+            euint64 stake = market.getUserStake(predictionId, user);
+            positions[i] = UserPosition({
+                predictionId: predictionId,
+                stake: stake,
+                choice: market.getUserChoice(predictionId, user),
+                participated: FHE.isInitialized(stake),
+                claimed: market.hasClaimed(predictionId, user),
+                canDecryptTallies: market.canDecryptTallies(predictionId, user)
+            });
+        }
+    }
+
+    function _summaryOf(uint256 predictionId) private view returns (PredictionSummary memory summary) {
+        summary.id = predictionId;
+        _loadMetadata(summary);
+        (
+            summary.state,
+            summary.winningOption,
+            summary.payoutsPublished,
+            summary.winningStake,
+            summary.payoutPot,
+            summary.resolver,
+            summary.disputeEndsAt,
+            summary.challenger
+        ) = market.getResolution(predictionId);
+        (summary.protocolFeeBps, summary.creatorFeeBps) = market.getFees(predictionId);
+        (summary.revealRequested, , , , ) = market.getRevealedTallies(predictionId);
+    }
+
+    /// @dev Split in two reads of `getPrediction` to stay within the stack limit of the legacy code generator
+    function _loadMetadata(PredictionSummary memory summary) private view {
+        (
+            summary.title,
+            summary.creator,
+            summary.active,
+            summary.createdAt,
+            summary.closesAt,
+            summary.resolveBy,
+            summary.tallyVisibility,
+            ,
+            ,
+            ,
+
+        ) = market.getPrediction(summary.id);
+        (
+            ,
+            ,
+            ,
+            ,
+            ,
+            ,
+            ,
+            summary.optionLabels,
+            summary.encryptedSelections,
+            summary.encryptedStakes,
+            summary.totalEncryptedStake
+        ) = market.getPrediction(summary.id);
+    }
+
+    /// @dev Number of entries in the page starting at `offset`, capped by `limit`, `MAX_PAGE_SIZE` and `total`
+    function _pageLength(uint256 offset, uint256 limit, uint256 total) private view returns (uint256) {
+        if (offset >= total) {
+            return 0;
+        }
+        uint256 remaining = total - offset;
+        uint256 maxPageSize = market.MAX_PAGE_SIZE();
+        if (limit > maxPageSize) {
+            limit = maxPageSize;
+        }
+        return remaining < limit ? remaining : limit;
+    }
+}
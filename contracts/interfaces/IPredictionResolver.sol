@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.27;
+
+/// @title IPredictionResolver - Source of truth for prediction outcomes
+/// @notice Implemented by oracles, multisigs or any other contract trusted to settle a prediction.
+///         A resolver can either push the outcome by calling `resolvePrediction` on the market itself,
+///         or expose it here so that anyone can pull it into the market with `pullResolution`.
+interface IPredictionResolver {
+    /// @notice Returns the outcome decided for a prediction of a given market
+    /// @param market The prediction market contract asking for the outcome
+    /// @param predictionId The prediction identifier inside that market
+    /// @return resolved Whether an outcome has been decided yet
+    /// @return winningOption The 0-based index of the winning option, meaningful only once resolved
+    function outcomeOf(address market, uint256 predictionId) external view returns (bool resolved, uint8 winningOption);
+}
@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.27;
+
+import {IPredictionResolver} from "../interfaces/IPredictionResolver.sol";
+import {ZeroTrustPredict} from "../ZeroTrustPredict.sol";
+
+/// @title MockPredictionResolver - Test resolver whose outcomes are set directly
+/// @notice Supports both the pull flow (`setOutcome` then `ZeroTrustPredict.pullResolution`)
+///         and the push flow (`pushOutcome` calls `ZeroTrustPredict.resolvePrediction` itself)
+contract MockPredictionResolver is IPredictionResolver {
+    struct Outcome {
+        bool resolved;
+        uint8 winningOption;
+    }
+
+    mapping(address market => mapping(uint256 predictionId => Outcome)) private _outcomes;
+
+    /// @notice Records the outcome returned by `outcomeOf`
+    function setOutcome(address market, uint256 predictionId, uint8 winningOption) external {
+        _outcomes[market][predictionId] = Outcome({resolved: true, winningOption: winningOption});
+    }
+
+    /// @notice Resolves the prediction on the market directly as its designated resolver
+    function pushOutcome(address market, uint256 predictionId, uint8 winningOption) external {
+        _outcomes[market][predictionId] = Outcome({resolved: true, winningOption: winningOption});
+        ZeroTrustPredict(market).resolvePrediction(predictionId, winningOption);
+    }
+
+    /// @inheritdoc IPredictionResolver
+    function outcomeOf(
+        address market,
+        uint256 predictionId
+    ) external view returns (bool resolved, uint8 winningOption) {
+        Outcome storage outcome = _outcomes[market][predictionId];
+        return (outcome.resolved, outcome.winningOption);
+    }
+}
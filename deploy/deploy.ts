@@ -12,12 +12,19 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
 
   const zeroTrustPredict = await deploy("ZeroTrustPredict", {
     from: deployer,
-    args: [predictCoin.address],
+    args: [predictCoin.address, deployer],
+    log: true,
+  });
+
+  const zeroTrustPredictLens = await deploy("ZeroTrustPredictLens", {
+    from: deployer,
+    args: [zeroTrustPredict.address],
     log: true,
   });
 
   console.log(`PredictCoin contract: ${predictCoin.address}`);
   console.log(`ZeroTrustPredict contract: ${zeroTrustPredict.address}`);
+  console.log(`ZeroTrustPredictLens contract: ${zeroTrustPredictLens.address}`);
 };
 export default func;
 func.id = "deploy_zeroTrustPredict"; // id required to prevent reexecution
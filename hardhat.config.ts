@@ -11,6 +11,10 @@ import * as dotenv from "dotenv";
 
 import "./tasks/accounts";
 import "./tasks/FHECounter";
+import "./tasks/Frontend";
+import "./tasks/Indexer";
+import "./tasks/PredictCoin";
+import "./tasks/ZeroTrustPredict";
 
 dotenv.config();
 
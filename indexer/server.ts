@@ -0,0 +1,138 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+
+import { BUCKET_SECONDS, type IndexerStore, type PredictionFilter } from "./store";
+
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+
+const FILTERS: readonly PredictionFilter[] = ["all", "active", "mine"];
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, {
+    "Content-Type": "application/json",
+    // The frontend is served from another origin during development
+    "Access-Control-Allow-Origin": "*",
+  });
+  response.end(JSON.stringify(body));
+};
+
+const readInteger = (params: URLSearchParams, name: string, fallback: number, max = Number.MAX_SAFE_INTEGER) => {
+  const raw = params.get(name);
+  if (raw === null) {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new HttpError(400, `${name} must be a non-negative integer`);
+  }
+  return Math.min(value, max);
+};
+
+const readPredictionId = (raw: string) => {
+  const predictionId = Number(raw);
+  if (!Number.isInteger(predictionId) || predictionId < 0) {
+    throw new HttpError(400, "Invalid prediction id");
+  }
+  return predictionId;
+};
+
+/**
+ * Routes:
+ *   GET /status                                   indexed block and prediction count
+ *   GET /predictions?filter=&creator=&offset=&limit=   paged summaries, same shape as the lens
+ *   GET /predictions/:id                          summary and every indexed event
+ *   GET /predictions/:id/activity?bucket=day|hour bets, choice changes and stake top-ups per bucket
+ *   GET /bettors/:address                         markets the address bet on, with its activity in each
+ */
+function route(store: IndexerStore, market: string, url: URL): unknown {
+  const segments = url.pathname.split("/").filter(Boolean);
+  const params = url.searchParams;
+
+  if (segments.length === 1 && segments[0] === "status") {
+    return { market, nextBlock: store.nextBlock(market) ?? 0, predictions: store.countPredictions() };
+  }
+
+  if (segments[0] === "predictions" && segments.length === 1) {
+    const filter = (params.get("filter") ?? "all") as PredictionFilter;
+    if (!FILTERS.includes(filter)) {
+      throw new HttpError(400, `filter must be one of ${FILTERS.join(", ")}`);
+    }
+    const creator = params.get("creator") ?? undefined;
+    if (filter === "mine" && !creator) {
+      throw new HttpError(400, "creator is required for the mine filter");
+    }
+    const offset = readInteger(params, "offset", 0);
+    const limit = readInteger(params, "limit", DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const { predictions, total } = store.listPredictions(filter, offset, limit, {
+      creator,
+      now: Math.floor(Date.now() / 1000),
+    });
+    const loaded = offset + predictions.length;
+    return { predictions, total, nextOffset: loaded < total ? loaded : null };
+  }
+
+  if (segments[0] === "predictions" && segments.length === 2) {
+    const predictionId = readPredictionId(segments[1]);
+    const prediction = store.getPrediction(predictionId);
+    if (!prediction) {
+      throw new HttpError(404, "Prediction not indexed");
+    }
+    return { prediction, events: store.listEvents(predictionId) };
+  }
+
+  if (segments[0] === "predictions" && segments.length === 3 && segments[2] === "activity") {
+    const predictionId = readPredictionId(segments[1]);
+    const bucket = (params.get("bucket") ?? "day") as keyof typeof BUCKET_SECONDS;
+    if (!(bucket in BUCKET_SECONDS)) {
+      throw new HttpError(400, "bucket must be day or hour");
+    }
+    return { predictionId, bucket, timeline: store.activityTimeline(predictionId, BUCKET_SECONDS[bucket]) };
+  }
+
+  if (segments[0] === "bettors" && segments.length === 2) {
+    const address = segments[1];
+    if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+      throw new HttpError(400, "Invalid address");
+    }
+    return { address, participations: store.participation(address) };
+  }
+
+  throw new HttpError(404, "Not found");
+}
+
+/**
+ * Read-only JSON API over the indexed data. It never touches the chain, so it keeps answering while the
+ * indexer catches up or the node is down.
+ */
+export function createIndexerServer(store: IndexerStore, market: string): Server {
+  return createServer((request: IncomingMessage, response: ServerResponse) => {
+    if (request.method === "OPTIONS") {
+      response.writeHead(204, { "Access-Control-Allow-Origin": "*", "Access-Control-Allow-Methods": "GET" });
+      response.end();
+      return;
+    }
+    if (request.method !== "GET") {
+      sendJson(response, 405, { error: "Only GET is supported" });
+      return;
+    }
+    try {
+      sendJson(response, 200, route(store, market, new URL(request.url ?? "/", "http://localhost")));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(response, error.status, { error: error.message });
+        return;
+      }
+      console.error(error);
+      sendJson(response, 500, { error: "Internal error" });
+    }
+  });
+}
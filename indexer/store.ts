@@ -0,0 +1,284 @@
+import Database from "better-sqlite3";
+
+/**
+ * JSON form of the lens `PredictionSummary`: integers wider than a JS number are kept as decimal strings so
+ * that the frontend can turn them back into bigints.
+ */
+export type StoredSummary = {
+  id: string;
+  title: string;
+  creator: string;
+  active: boolean;
+  createdAt: string;
+  closesAt: string;
+  resolveBy: string;
+  tallyVisibility: number;
+  optionLabels: string[];
+  encryptedSelections: string[];
+  encryptedStakes: string[];
+  totalEncryptedStake: string;
+  state: number;
+  winningOption: number;
+  payoutsPublished: boolean;
+  winningStake: string;
+  payoutPot: string;
+  resolver: string;
+  disputeEndsAt: string;
+  challenger: string;
+  protocolFeeBps: number;
+  creatorFeeBps: number;
+  revealRequested: boolean;
+};
+
+export type IndexedEvent = {
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+  predictionId: number;
+  name: string;
+  actor?: string;
+};
+
+export type PredictionFilter = "all" | "active" | "mine";
+
+export type ActivityBucket = {
+  start: number;
+  selections: number;
+  choiceChanges: number;
+  stakeIncreases: number;
+  bettors: number;
+};
+
+export type Participation = {
+  predictionId: number;
+  title: string;
+  firstBetAt: number;
+  lastActivityAt: number;
+  selections: number;
+  choiceChanges: number;
+  stakeIncreases: number;
+  claimed: boolean;
+  refunded: boolean;
+};
+
+// Mirrors ZeroTrustPredict.PredictionState.Open
+const OPEN_STATE = 0;
+
+export const BUCKET_SECONDS = {
+  hour: 60 * 60,
+  day: 24 * 60 * 60,
+} as const;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS cursor (
+    id INTEGER PRIMARY KEY CHECK (id = 0),
+    market TEXT NOT NULL,
+    next_block INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS predictions (
+    id INTEGER PRIMARY KEY,
+    creator TEXT NOT NULL,
+    active INTEGER NOT NULL,
+    state INTEGER NOT NULL,
+    closes_at INTEGER NOT NULL,
+    summary TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    prediction_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    actor TEXT,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_prediction ON events (prediction_id, block_number, log_index);
+  CREATE INDEX IF NOT EXISTS events_by_actor ON events (actor, prediction_id);
+  CREATE INDEX IF NOT EXISTS predictions_by_creator ON predictions (creator, id);
+`;
+
+type EventRow = {
+  block_number: number;
+  log_index: number;
+  transaction_hash: string;
+  timestamp: number;
+  prediction_id: number;
+  name: string;
+  actor: string | null;
+};
+
+const toIndexedEvent = (row: EventRow): IndexedEvent => ({
+  blockNumber: row.block_number,
+  logIndex: row.log_index,
+  transactionHash: row.transaction_hash,
+  timestamp: row.timestamp,
+  predictionId: row.prediction_id,
+  name: row.name,
+  actor: row.actor ?? undefined,
+});
+
+/**
+ * SQLite persistence for the indexer. Addresses are stored lowercased so that lookups do not depend on the
+ * checksum casing used by the caller.
+ */
+export class IndexerStore {
+  readonly db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  // Returns the first block that still has to be indexed for `market`, or undefined on a fresh database
+  nextBlock(market: string): number | undefined {
+    const row = this.db.prepare("SELECT market, next_block FROM cursor WHERE id = 0").get() as
+      | { market: string; next_block: number }
+      | undefined;
+    if (row && row.market !== market.toLowerCase()) {
+      throw new Error(`Database already indexes market ${row.market}`);
+    }
+    return row?.next_block;
+  }
+
+  // Stores a batch of events, the refreshed summaries of the predictions they touched and the new cursor atomically
+  commitBatch(market: string, nextBlock: number, events: IndexedEvent[], summaries: StoredSummary[]) {
+    const insertEvent = this.db.prepare(
+      `INSERT OR IGNORE INTO events (block_number, log_index, transaction_hash, timestamp, prediction_id, name, actor)
+       VALUES (@blockNumber, @logIndex, @transactionHash, @timestamp, @predictionId, @name, @actor)`,
+    );
+    const upsertPrediction = this.db.prepare(
+      `INSERT INTO predictions (id, creator, active, state, closes_at, summary)
+       VALUES (@id, @creator, @active, @state, @closesAt, @summary)
+       ON CONFLICT (id) DO UPDATE SET
+         active = excluded.active, state = excluded.state, closes_at = excluded.closes_at, summary = excluded.summary`,
+    );
+    const saveCursor = this.db.prepare(
+      `INSERT INTO cursor (id, market, next_block) VALUES (0, @market, @nextBlock)
+       ON CONFLICT (id) DO UPDATE SET next_block = excluded.next_block`,
+    );
+
+    this.db.transaction(() => {
+      for (const event of events) {
+        insertEvent.run({ ...event, actor: event.actor?.toLowerCase() ?? null });
+      }
+      for (const summary of summaries) {
+        upsertPrediction.run({
+          id: Number(summary.id),
+          creator: summary.creator.toLowerCase(),
+          active: summary.active ? 1 : 0,
+          state: summary.state,
+          closesAt: Number(summary.closesAt),
+          summary: JSON.stringify(summary),
+        });
+      }
+      saveCursor.run({ market: market.toLowerCase(), nextBlock });
+    })();
+  }
+
+  countPredictions(): number {
+    return (this.db.prepare("SELECT COUNT(*) AS total FROM predictions").get() as { total: number }).total;
+  }
+
+  getPrediction(predictionId: number): StoredSummary | undefined {
+    const row = this.db.prepare("SELECT summary FROM predictions WHERE id = ?").get(predictionId) as
+      | { summary: string }
+      | undefined;
+    return row ? (JSON.parse(row.summary) as StoredSummary) : undefined;
+  }
+
+  // Pages predictions by ascending id, like the lens views. `now` decides which markets still accept selections.
+  listPredictions(
+    filter: PredictionFilter,
+    offset: number,
+    limit: number,
+    options: { creator?: string; now: number },
+  ): { predictions: StoredSummary[]; total: number } {
+    let where = "1 = 1";
+    const params: Record<string, string | number> = {};
+    if (filter === "active") {
+      where = "active = 1 AND state = @open AND closes_at > @now";
+      params.open = OPEN_STATE;
+      params.now = options.now;
+    } else if (filter === "mine") {
+      if (!options.creator) {
+        throw new Error("A creator is required for the mine filter");
+      }
+      where = "creator = @creator";
+      params.creator = options.creator.toLowerCase();
+    }
+
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM predictions WHERE ${where}`).get(params) as {
+      total: number;
+    };
+    const rows = this.db
+      .prepare(`SELECT summary FROM predictions WHERE ${where} ORDER BY id LIMIT @limit OFFSET @offset`)
+      .all({ ...params, limit, offset }) as { summary: string }[];
+    return { predictions: rows.map((row) => JSON.parse(row.summary) as StoredSummary), total };
+  }
+
+  listEvents(predictionId: number): IndexedEvent[] {
+    const rows = this.db
+      .prepare("SELECT * FROM events WHERE prediction_id = ? ORDER BY block_number, log_index")
+      .all(predictionId) as EventRow[];
+    return rows.map(toIndexedEvent);
+  }
+
+  // Bet activity of one prediction grouped into UTC-aligned buckets of `bucketSeconds`
+  activityTimeline(predictionId: number, bucketSeconds: number): ActivityBucket[] {
+    return this.db
+      .prepare(
+        `SELECT timestamp - timestamp % @bucket AS start,
+                SUM(name = 'EncryptedSelectionPlaced') AS selections,
+                SUM(name = 'SelectionChanged') AS choiceChanges,
+                SUM(name = 'StakeIncreased') AS stakeIncreases,
+                COUNT(DISTINCT actor) AS bettors
+         FROM events
+         WHERE prediction_id = @predictionId
+           AND name IN ('EncryptedSelectionPlaced', 'SelectionChanged', 'StakeIncreased')
+         GROUP BY start
+         ORDER BY start`,
+      )
+      .all({ predictionId, bucket: bucketSeconds }) as ActivityBucket[];
+  }
+
+  participation(bettor: string): Participation[] {
+    const rows = this.db
+      .prepare(
+        `SELECT e.prediction_id AS predictionId,
+                MIN(CASE WHEN e.name = 'EncryptedSelectionPlaced' THEN e.timestamp END) AS firstBetAt,
+                MAX(e.timestamp) AS lastActivityAt,
+                SUM(e.name = 'EncryptedSelectionPlaced') AS selections,
+                SUM(e.name = 'SelectionChanged') AS choiceChanges,
+                SUM(e.name = 'StakeIncreased') AS stakeIncreases,
+                SUM(e.name = 'WinningsClaimed') > 0 AS claimed,
+                SUM(e.name = 'StakeRefunded') > 0 AS refunded,
+                p.summary AS summary
+         FROM events e
+         LEFT JOIN predictions p ON p.id = e.prediction_id
+         WHERE e.actor = ?
+           AND e.name IN ('EncryptedSelectionPlaced', 'SelectionChanged', 'StakeIncreased', 'WinningsClaimed', 'StakeRefunded')
+         GROUP BY e.prediction_id
+         HAVING selections > 0
+         ORDER BY e.prediction_id`,
+      )
+      .all(bettor.toLowerCase()) as (Omit<Participation, "title" | "claimed" | "refunded"> & {
+      claimed: number;
+      refunded: number;
+      summary: string | null;
+    })[];
+
+    return rows.map(({ summary, claimed, refunded, ...row }) => ({
+      ...row,
+      title: summary ? (JSON.parse(summary) as StoredSummary).title : "",
+      claimed: Boolean(claimed),
+      refunded: Boolean(refunded),
+    }));
+  }
+}
@@ -0,0 +1,184 @@
+import type { Log, Provider } from "ethers";
+
+import { ZeroTrustPredict__factory, ZeroTrustPredictLens__factory } from "../types";
+import type { ZeroTrustPredictLens } from "../types";
+import type { IndexedEvent, IndexerStore, StoredSummary } from "./store";
+
+export type SyncOptions = {
+  market: string;
+  lens: string;
+  // Block to start from on a fresh database, usually the market's deployment block
+  fromBlock?: number;
+  batchSize?: number;
+  // Blocks left unindexed at the head of the chain to stay clear of reorgs. Defaults to 0, which is only safe on
+  // dev chains that never reorg: live networks need DEFAULT_CONFIRMATIONS or more
+  confirmations?: number;
+};
+
+export type SyncResult = {
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  predictions: number;
+};
+
+const DEFAULT_BATCH_SIZE = 2_000;
+
+// Depth the indexer task keeps behind the head of live networks, past which Ethereum reorgs are not expected
+export const DEFAULT_CONFIRMATIONS = 12;
+
+// Predictions read per lens call. `getPredictionSummaries` takes any number of ids, so this only keeps each
+// eth_call small, at ZeroTrustPredict.MAX_PAGE_SIZE like the lens's paged views
+const SUMMARY_CHUNK = 50;
+
+// Argument holding the account behind each event, for per-bettor queries
+const ACTOR_ARGUMENT: Record<string, string> = {
+  PredictionCreated: "creator",
+  EncryptedSelectionPlaced: "bettor",
+  SelectionChanged: "bettor",
+  StakeIncreased: "bettor",
+  ChallengeSubmitted: "challenger",
+  ChallengeRejected: "challenger",
+  OutcomeDisputed: "challenger",
+  WinningsClaimed: "bettor",
+  PredictionCancelled: "cancelledBy",
+  StakeRefunded: "bettor",
+  TallyRevealRequested: "requester",
+};
+
+// Private per-bettor results that only accompany a selection or top-up already indexed from the same transaction
+const SKIPPED_EVENTS = new Set(["StakeTransferResult"]);
+
+export const toStoredSummary = (summary: ZeroTrustPredictLens.PredictionSummaryStructOutput): StoredSummary => ({
+  id: summary.id.toString(),
+  title: summary.title,
+  creator: summary.creator,
+  active: summary.active,
+  createdAt: summary.createdAt.toString(),
+  closesAt: summary.closesAt.toString(),
+  resolveBy: summary.resolveBy.toString(),
+  tallyVisibility: Number(summary.tallyVisibility),
+  optionLabels: [...summary.optionLabels],
+  encryptedSelections: [...summary.encryptedSelections],
+  encryptedStakes: [...summary.encryptedStakes],
+  totalEncryptedStake: summary.totalEncryptedStake,
+  state: Number(summary.state),
+  winningOption: Number(summary.winningOption),
+  payoutsPublished: summary.payoutsPublished,
+  winningStake: summary.winningStake.toString(),
+  payoutPot: summary.payoutPot.toString(),
+  resolver: summary.resolver,
+  disputeEndsAt: summary.disputeEndsAt.toString(),
+  challenger: summary.challenger,
+  protocolFeeBps: Number(summary.protocolFeeBps),
+  creatorFeeBps: Number(summary.creatorFeeBps),
+  revealRequested: summary.revealRequested,
+});
+
+/**
+ * Replays the market's logs from the stored cursor up to the confirmed head, one block range at a time. Every
+ * prediction touched by a batch is re-read through the lens, so the stored summaries always reflect the state
+ * after the last indexed block, including the encrypted handles the frontend decrypts. Indexed blocks are never
+ * rolled back, so a reorg deeper than `confirmations` leaves orphaned events in the store.
+ */
+export async function syncMarket(provider: Provider, store: IndexerStore, options: SyncOptions): Promise<SyncResult> {
+  const market = ZeroTrustPredict__factory.connect(options.market, provider);
+  const lens = ZeroTrustPredictLens__factory.connect(options.lens, provider);
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+  const startBlock = store.nextBlock(options.market) ?? options.fromBlock ?? 0;
+  const headBlock = (await provider.getBlockNumber()) - (options.confirmations ?? 0);
+  const result: SyncResult = { fromBlock: startBlock, toBlock: startBlock - 1, events: 0, predictions: 0 };
+
+  for (let fromBlock = startBlock; fromBlock <= headBlock; fromBlock += batchSize) {
+    const toBlock = Math.min(fromBlock + batchSize - 1, headBlock);
+    const logs = await provider.getLogs({ address: options.market, fromBlock, toBlock });
+
+    const timestamps = new Map<number, number>();
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      const event = decodeLog(market.interface, log);
+      if (!event) {
+        continue;
+      }
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await provider.getBlock(log.blockNumber);
+        timestamps.set(log.blockNumber, block?.timestamp ?? 0);
+      }
+      events.push({ ...event, timestamp: timestamps.get(log.blockNumber) ?? 0 });
+    }
+
+    const touchedIds = [...new Set(events.map((event) => event.predictionId))];
+    const summaries: StoredSummary[] = [];
+    for (let start = 0; start < touchedIds.length; start += SUMMARY_CHUNK) {
+      const chunk = touchedIds.slice(start, start + SUMMARY_CHUNK);
+      // Read at the batch's last block, so summaries never run ahead of the confirmed events stored with them
+      const loaded = await lens.getPredictionSummaries(chunk, { blockTag: toBlock });
+      summaries.push(...loaded.map(toStoredSummary));
+    }
+
+    store.commitBatch(options.market, toBlock + 1, events, summaries);
+    result.toBlock = toBlock;
+    result.events += events.length;
+    result.predictions += summaries.length;
+  }
+
+  return result;
+}
+
+function decodeLog(
+  marketInterface: ReturnType<typeof ZeroTrustPredict__factory.createInterface>,
+  log: Log,
+): Omit<IndexedEvent, "timestamp"> | undefined {
+  const parsed = marketInterface.parseLog({ topics: [...log.topics], data: log.data });
+  // Market-wide events (fees, treasury, ownership) have no prediction to attach to
+  if (
+    !parsed ||
+    SKIPPED_EVENTS.has(parsed.name) ||
+    !parsed.fragment.inputs.some((input) => input.name === "predictionId")
+  ) {
+    return undefined;
+  }
+  const actorArgument = ACTOR_ARGUMENT[parsed.name];
+  return {
+    blockNumber: log.blockNumber,
+    logIndex: log.index,
+    transactionHash: log.transactionHash,
+    predictionId: Number(parsed.args.getValue("predictionId")),
+    name: parsed.name,
+    actor: actorArgument ? (parsed.args.getValue(actorArgument) as string) : undefined,
+  };
+}
+
+/**
+ * Keeps syncing every `intervalMs` until the returned function is called. Failed rounds are logged and retried
+ * on the next tick, so a restarting node does not stop the indexer.
+ */
+export function watchMarket(
+  provider: Provider,
+  store: IndexerStore,
+  options: SyncOptions,
+  intervalMs: number,
+  onSynced?: (result: SyncResult) => void,
+): () => void {
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const tick = async () => {
+    try {
+      const result = await syncMarket(provider, store, options);
+      onSynced?.(result);
+    } catch (error) {
+      console.error("Indexer sync failed:", error);
+    }
+    if (!stopped) {
+      timer = setTimeout(tick, intervalMs);
+    }
+  };
+  void tick();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
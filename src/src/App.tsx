@@ -4,7 +4,9 @@ import { RainbowKitProvider } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 
 import { config } from './config/wagmi';
+import { SUPPORTED_CHAINS } from './config/chains';
 import { PredictionApp } from './components/PredictionApp';
+import { UnsupportedNetwork } from './components/UnsupportedNetwork';
 
 const queryClient = new QueryClient();
 
@@ -13,7 +15,7 @@ function App() {
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
         <RainbowKitProvider locale="en">
-          <PredictionApp />
+          {SUPPORTED_CHAINS.length > 0 ? <PredictionApp /> : <UnsupportedNetwork />}
         </RainbowKitProvider>
       </QueryClientProvider>
     </WagmiProvider>
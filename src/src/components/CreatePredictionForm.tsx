@@ -1,7 +1,11 @@
 import { useState } from 'react';
-import { Contract, type JsonRpcSigner } from 'ethers';
+import { Contract, ZeroAddress, isAddress, type JsonRpcSigner } from 'ethers';
+import { useReadContract } from 'wagmi';
 
-import { ZERO_TRUST_PREDICT_ABI, ZERO_TRUST_PREDICT_ADDRESS } from '../config/contracts';
+import { ZERO_TRUST_PREDICT_ABI } from '../config/contracts';
+import { useChainConfig } from '../hooks/useChainConfig';
+import { describeContractError } from '../utils/contractErrors';
+import { formatBps, parseDateTimeInput } from '../utils/format';
 import '../styles/CreatePredictionForm.css';
 
 interface Props {
@@ -12,8 +16,26 @@ interface Props {
 export function CreatePredictionForm({ signerPromise, onCreated }: Props) {
   const [title, setTitle] = useState('');
   const [options, setOptions] = useState<string[]>(['', '']);
+  const [closesAtInput, setClosesAtInput] = useState('');
+  const [resolveByInput, setResolveByInput] = useState('');
+  const [tallyVisibility, setTallyVisibility] = useState(0);
+  const [resolverInput, setResolverInput] = useState('');
+  const [creatorFeeInput, setCreatorFeeInput] = useState('0');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [feedback, setFeedback] = useState('');
+  const { contracts } = useChainConfig();
+
+  const { data: maxCreatorFeeData } = useReadContract({
+    address: contracts.zeroTrustPredict,
+    abi: ZERO_TRUST_PREDICT_ABI,
+    functionName: 'MAX_CREATOR_FEE_BPS',
+  });
+  const { data: protocolFeeData } = useReadContract({
+    address: contracts.zeroTrustPredict,
+    abi: ZERO_TRUST_PREDICT_ABI,
+    functionName: 'protocolFeeBps',
+  });
+  const maxCreatorFeeBps = Number(maxCreatorFeeData ?? 0);
 
   const handleOptionChange = (index: number, value: string) => {
     setOptions((prev) => prev.map((item, idx) => (idx === index ? value : item)));
@@ -43,20 +65,53 @@ export function CreatePredictionForm({ signerPromise, onCreated }: Props) {
       return;
     }
 
+    let closesAt: number;
+    let resolveBy: number;
+    try {
+      closesAt = parseDateTimeInput(closesAtInput);
+      resolveBy = parseDateTimeInput(resolveByInput);
+    } catch {
+      alert('Enter valid close and resolution times.');
+      return;
+    }
+    if (closesAt <= Math.floor(Date.now() / 1000)) {
+      alert('Betting must close in the future.');
+      return;
+    }
+    if (resolveBy && resolveBy < closesAt) {
+      alert('The resolution deadline cannot be before betting closes.');
+      return;
+    }
+    const creatorFeeBps = Math.round(Number(creatorFeeInput || '0') * 100);
+    if (!Number.isFinite(creatorFeeBps) || creatorFeeBps < 0 || creatorFeeBps > maxCreatorFeeBps) {
+      alert(`The creator fee must be between 0% and ${formatBps(maxCreatorFeeBps)}.`);
+      return;
+    }
+    const resolver = resolverInput.trim() || ZeroAddress;
+    if (!isAddress(resolver)) {
+      alert('Enter a valid resolver contract address or leave it empty.');
+      return;
+    }
+
     setIsSubmitting(true);
     setFeedback('');
     try {
       const signer = await signerPromise;
-      const contract = new Contract(ZERO_TRUST_PREDICT_ADDRESS, ZERO_TRUST_PREDICT_ABI, signer);
-      const tx = await contract.createPrediction(trimmedTitle, trimmedOptions);
+      const contract = new Contract(contracts.zeroTrustPredict, ZERO_TRUST_PREDICT_ABI, signer);
+      const tx = await contract.createPrediction(trimmedTitle, trimmedOptions, closesAt, resolveBy, tallyVisibility, resolver, creatorFeeBps);
       await tx.wait();
       setTitle('');
       setOptions(['', '']);
+      setClosesAtInput('');
+      setResolveByInput('');
+      setTallyVisibility(0);
+      setResolverInput('');
+      setCreatorFeeInput('0');
       setFeedback('Prediction created successfully.');
       onCreated();
     } catch (error) {
       console.error(error);
-      setFeedback('Failed to create prediction.');
+      setFeedback(describeContractError(error, 'Failed to create prediction.').message);
     } finally {
       setIsSubmitting(false);
     }
@@ -82,6 +137,58 @@ export function CreatePredictionForm({ signerPromise, onCreated }: Props) {
           />
         </label>
 
+        <div className="schedule-row">
+          <label>
+            <span>Betting closes</span>
+            <input
+              type="datetime-local"
+              value={closesAtInput}
+              onChange={(event) => setClosesAtInput(event.target.value)}
+            />
+          </label>
+          <label>
+            <span>Resolve by (optional)</span>
+            <input
+              type="datetime-local"
+              value={resolveByInput}
+              onChange={(event) => setResolveByInput(event.target.value)}
+            />
+          </label>
+        </div>
+
+        <label>
+          <span>Running tallies visible to</span>
+          <select value={tallyVisibility} onChange={(event) => setTallyVisibility(Number(event.target.value))}>
+            <option value={0}>Nobody until betting closes</option>
+            <option value={1}>Creator only</option>
+            <option value={2}>Every bettor</option>
+          </select>
+        </label>
+
+        <label>
+          <span>Resolver contract (optional)</span>
+          <input
+            type="text"
+            value={resolverInput}
+            onChange={(event) => setResolverInput(event.target.value)}
+            placeholder="0x... — leave empty to resolve it yourself"
+          />
+        </label>
+
+        <label>
+          <span>
+            Creator fee (%, max {formatBps(maxCreatorFeeBps)}) • protocol fee {formatBps(Number(protocolFeeData ?? 0))}
+          </span>
+          <input
+            type="number"
+            min={0}
+            max={maxCreatorFeeBps / 100}
+            step={0.01}
+            value={creatorFeeInput}
+            onChange={(event) => setCreatorFeeInput(event.target.value)}
+          />
+        </label>
+
         <div className="options-list">
           <div className="options-list__header">
             <span>Options ({options.length}/6)</span>
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
+import { formatCountdown } from '../utils/format';
+
+export function DecryptionSessionBadge() {
+  const { expiresAt, isSigning, revoke } = useDecryptionSession();
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    if (!expiresAt) {
+      return;
+    }
+    const timer = window.setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => window.clearInterval(timer);
+  }, [expiresAt]);
+
+  if (isSigning) {
+    return <div className="session-badge">Waiting for decryption signature...</div>;
+  }
+
+  if (!expiresAt) {
+    return <div className="session-badge session-badge--idle">No decryption session</div>;
+  }
+
+  return (
+    <div className="session-badge session-badge--active">
+      <span>Decryption session expires in {formatCountdown(expiresAt - now)}</span>
+      <button className="session-badge__revoke" onClick={revoke}>
+        Revoke
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import { useChainId } from 'wagmi';
+import type { JsonRpcSigner } from 'ethers';
+import type { HandleContractPair, UserDecryptResults } from '@zama-fhe/relayer-sdk/bundle';
+
+import { useChainConfig } from '../hooks/useChainConfig';
+import { DecryptionSessionContext, type DecryptionSessionValue } from '../hooks/useDecryptionSession';
+import { FheError, type DecryptionSession, type FheClient } from '../utils/fhe';
+import {
+  clearClearValues,
+  clearValueScope,
+  openJson,
+  readClearValues,
+  sealJson,
+  writeClearValues,
+} from '../utils/storage';
+
+const SESSION_DURATION_DAYS = 10;
+
+// Sessions are per chain: the signature names the verifying contract and the chain it was requested for
+const storageKey = (chainId: number, address: string) =>
+  `zeroTrustPredict.decryptionSession.${chainId}.${address.toLowerCase()}`;
+const expiresAtOf = (session: DecryptionSession) => session.startTime + session.durationDays * 24 * 60 * 60;
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+const coversSessionContracts = (session: DecryptionSession, sessionContracts: string[]) =>
+  sessionContracts.every((contract) =>
+    session.contractAddresses.some((stored) => stored.toLowerCase() === contract.toLowerCase()),
+  );
+
+interface ProviderProps {
+  fhe: FheClient | null;
+  signerPromise?: Promise<JsonRpcSigner>;
+  address?: `0x${string}`;
+  children: ReactNode;
+}
+
+/**
+ * Holds one decryption keypair and one `UserDecryptRequestVerification` signature covering both
+ * ZeroTrustPredict and PredictCoin, so that every user decryption in the app reuses a single wallet prompt.
+ * The session is sealed into session storage until it expires or is revoked, and every decrypted handle is
+ * cached in IndexedDB so that unchanged ciphertexts never go back to the relayer.
+ */
+export function DecryptionSessionProvider({ fhe, signerPromise, address, children }: ProviderProps) {
+  const [session, setSession] = useState<DecryptionSession | null>(null);
+  const [isSigning, setIsSigning] = useState(false);
+  const pendingRef = useRef<Promise<DecryptionSession> | null>(null);
+  const chainId = useChainId();
+  const { contracts } = useChainConfig();
+  const sessionContracts = useMemo(() => [contracts.zeroTrustPredict, contracts.predictCoin], [contracts]);
+  const scope = address ? clearValueScope(chainId, address) : undefined;
+
+  useEffect(() => {
+    setSession(null);
+    pendingRef.current = null;
+    if (!address) {
+      return;
+    }
+    const sealed = sessionStorage.getItem(storageKey(chainId, address));
+    if (!sealed) {
+      return;
+    }
+    let cancelled = false;
+    openJson<DecryptionSession>(sealed)
+      .then((restored) => {
+        if (cancelled) {
+          return;
+        }
+        if (expiresAtOf(restored) > nowInSeconds() && coversSessionContracts(restored, sessionContracts)) {
+          setSession(restored);
+        } else {
+          sessionStorage.removeItem(storageKey(chainId, address));
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to restore decryption session:', error);
+        sessionStorage.removeItem(storageKey(chainId, address));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [address, chainId, sessionContracts]);
+
+  // Only forgets the keypair and cached values locally: the signature stays valid for the relayer until it expires
+  const revoke = useCallback(() => {
+    if (address) {
+      sessionStorage.removeItem(storageKey(chainId, address));
+    }
+    if (scope) {
+      clearClearValues(scope).catch((error) => console.error('Failed to clear cached values:', error));
+    }
+    pendingRef.current = null;
+    setSession(null);
+  }, [address, chainId, scope]);
+
+  useEffect(() => {
+    if (!session) {
+      return;
+    }
+    const timer = window.setTimeout(revoke, (expiresAtOf(session) - nowInSeconds()) * 1000);
+    return () => window.clearTimeout(timer);
+  }, [session, revoke]);
+
+  const ensureSession = useCallback(async (): Promise<DecryptionSession> => {
+    if (session && expiresAtOf(session) > nowInSeconds()) {
+      return session;
+    }
+    // Concurrent decryptions wait for the same signature prompt
+    if (pendingRef.current) {
+      return pendingRef.current;
+    }
+    if (!fhe || !signerPromise || !address) {
+      throw new FheError('Connect wallet and wait for the encryption service to finish loading.');
+    }
+
+    const pending = (async () => {
+      const created = await fhe.createDecryptionSession(await signerPromise, sessionContracts, SESSION_DURATION_DAYS);
+      sessionStorage.setItem(storageKey(chainId, address), await sealJson(created));
+      return created;
+    })();
+
+    pendingRef.current = pending;
+    setIsSigning(true);
+    try {
+      const created = await pending;
+      setSession(created);
+      return created;
+    } finally {
+      pendingRef.current = null;
+      setIsSigning(false);
+    }
+  }, [session, fhe, signerPromise, address, chainId, sessionContracts]);
+
+  const readCached = useCallback(
+    async (handles: HandleContractPair[]): Promise<UserDecryptResults> => {
+      if (!scope) {
+        return {};
+      }
+      return readClearValues(
+        scope,
+        handles.map(({ handle }) => handle as `0x${string}`),
+      );
+    },
+    [scope],
+  );
+
+  const userDecrypt = useCallback(
+    async (handles: HandleContractPair[]) => {
+      const cached = await readCached(handles);
+      const missing = handles.filter(({ handle }) => cached[handle as `0x${string}`] === undefined);
+      if (missing.length === 0) {
+        return cached;
+      }
+      if (!fhe) {
+        throw new FheError('Encryption service is not ready.');
+      }
+      const decrypted = await fhe.decryptHandles(missing, await ensureSession());
+      if (scope) {
+        await writeClearValues(scope, decrypted).catch((error) =>
+          console.error('Failed to cache decrypted values:', error),
+        );
+      }
+      return { ...cached, ...decrypted };
+    },
+    [fhe, readCached, ensureSession, scope],
+  );
+
+  const value = useMemo<DecryptionSessionValue>(
+    () => ({
+      expiresAt: session ? expiresAtOf(session) : undefined,
+      isSigning,
+      readCached,
+      userDecrypt,
+      revoke,
+    }),
+    [session, isSigning, readCached, userDecrypt, revoke],
+  );
+
+  return <DecryptionSessionContext.Provider value={value}>{children}</DecryptionSessionContext.Provider>;
+}
@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import type { JsonRpcSigner } from 'ethers';
+
+import { useChainConfig } from '../hooks/useChainConfig';
+import { describeContractError, type ContractErrorFix, type ContractErrorMessage } from '../utils/contractErrors';
+import { authorizeMarket, claimFaucet } from '../utils/predictCoin';
+
+interface Props {
+  fix: ContractErrorFix;
+  signerPromise?: Promise<JsonRpcSigner>;
+  onResult: (status: ContractErrorMessage) => void;
+}
+
+const FIXES: Record<ContractErrorFix, { label: string; done: string; failed: string }> = {
+  authorizeMarket: {
+    label: 'Authorize market',
+    done: 'Market authorized, you can retry now.',
+    failed: 'Failed to set operator.',
+  },
+  claimFaucet: {
+    label: 'Claim faucet',
+    done: 'Faucet tokens received, you can retry now.',
+    failed: 'Unable to use faucet.',
+  },
+};
+
+/** Runs the remedy for a decoded contract error in one click */
+export function ErrorFixButton({ fix, signerPromise, onResult }: Props) {
+  const [isFixing, setIsFixing] = useState(false);
+  const { contracts } = useChainConfig();
+  const { label, done, failed } = FIXES[fix];
+
+  const handleFix = async () => {
+    if (!signerPromise) {
+      return;
+    }
+    setIsFixing(true);
+    try {
+      const signer = await signerPromise;
+      await (fix === 'authorizeMarket' ? authorizeMarket(signer, contracts) : claimFaucet(signer, contracts));
+      onResult({ message: done });
+    } catch (error) {
+      console.error(error);
+      onResult(describeContractError(error, failed));
+    } finally {
+      setIsFixing(false);
+    }
+  };
+
+  return (
+    <button className="primary-button" onClick={handleFix} disabled={isFixing || !signerPromise}>
+      {isFixing ? 'Sending...' : label}
+    </button>
+  );
+}
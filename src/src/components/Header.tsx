@@ -1,4 +1,6 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { DecryptionSessionBadge } from './DecryptionSessionBadge';
+import { NetworkSwitcher } from './NetworkSwitcher';
 import '../styles/Header.css';
 
 export function Header() {
@@ -10,7 +12,11 @@ export function Header() {
             <h1 className="header-title">ZeroTrustPredict</h1>
             <p className="header-subtitle">Confidential markets powered by Zama FHE and PredictCoin</p>
           </div>
-          <ConnectButton />
+          <div className="header-actions">
+            <NetworkSwitcher />
+            <DecryptionSessionBadge />
+            <ConnectButton />
+          </div>
         </div>
       </div>
     </header>
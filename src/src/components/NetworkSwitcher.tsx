@@ -0,0 +1,37 @@
+import { useSwitchChain } from 'wagmi';
+
+import { SUPPORTED_CHAINS } from '../config/chains';
+import { useChainConfig } from '../hooks/useChainConfig';
+
+export function NetworkSwitcher() {
+  const { chainConfig, walletChainId, isUnsupportedChain } = useChainConfig();
+  const { switchChain, isPending } = useSwitchChain();
+
+  return (
+    <div className={`network-switcher ${isUnsupportedChain ? 'network-switcher--unsupported' : ''}`}>
+      {isUnsupportedChain ? (
+        <span className="network-switcher__warning">
+          Unsupported network (chain {walletChainId}): transactions are disabled
+        </span>
+      ) : null}
+      <select
+        className="network-switcher__select"
+        value={isUnsupportedChain ? '' : chainConfig.chain.id}
+        onChange={(event) => switchChain({ chainId: Number(event.target.value) })}
+        disabled={isPending}
+        aria-label="Network"
+      >
+        {isUnsupportedChain ? (
+          <option value="" disabled>
+            Switch network
+          </option>
+        ) : null}
+        {SUPPORTED_CHAINS.map(({ chain, fhe }) => (
+          <option key={chain.id} value={chain.id}>
+            {fhe.mode === 'mock' ? `${chain.name} (mock FHE)` : chain.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
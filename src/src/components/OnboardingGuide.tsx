@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { useConnectModal } from '@rainbow-me/rainbowkit';
+import type { JsonRpcSigner } from 'ethers';
+
+import { useChainConfig } from '../hooks/useChainConfig';
+import type { OperatorStatus } from '../hooks/useOperatorStatus';
+import { describeContractError } from '../utils/contractErrors';
+import { authorizeMarket, claimFaucet } from '../utils/predictCoin';
+import '../styles/OnboardingGuide.css';
+
+interface Props {
+  address?: `0x${string}`;
+  signerPromise?: Promise<JsonRpcSigner>;
+  hasBalance: boolean;
+  operator: OperatorStatus;
+  hasPlacedBet: boolean;
+  onStepComplete: () => void;
+}
+
+type Step = {
+  title: string;
+  description: string;
+  done: boolean;
+  action?: { label: string; run: () => Promise<void> | void };
+};
+
+/**
+ * Walks a new account through connect → faucet → authorize → first bet. Staking stays disabled in the
+ * prediction cards until the first three steps are done, and the guide hides itself once all of them are.
+ */
+export function OnboardingGuide({ address, signerPromise, hasBalance, operator, hasPlacedBet, onStepComplete }: Props) {
+  const [isRunning, setIsRunning] = useState(false);
+  const [status, setStatus] = useState('');
+  const { openConnectModal } = useConnectModal();
+  const { contracts } = useChainConfig();
+
+  const withSigner = (action: (signer: JsonRpcSigner) => Promise<void>, fallback: string) => async () => {
+    if (!signerPromise) {
+      return;
+    }
+    setIsRunning(true);
+    setStatus('');
+    try {
+      await action(await signerPromise);
+      onStepComplete();
+    } catch (error) {
+      console.error(error);
+      setStatus(describeContractError(error, fallback).message);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const steps: Step[] = [
+    {
+      title: 'Connect a wallet',
+      description: 'Selections are signed by your wallet and encrypted in the browser.',
+      done: Boolean(address),
+      action: openConnectModal ? { label: 'Connect wallet', run: openConnectModal } : undefined,
+    },
+    {
+      title: 'Claim PredictCoin',
+      description: 'The faucet mints confidential PCoin to stake with, once a day per account.',
+      done: hasBalance,
+      action: {
+        label: 'Claim faucet',
+        run: withSigner((signer) => claimFaucet(signer, contracts), 'Unable to use faucet.'),
+      },
+    },
+    {
+      title: 'Authorize the market',
+      description: 'ZeroTrustPredict needs operator rights on PredictCoin to move your encrypted stake.',
+      done: operator.isAuthorized,
+      action: {
+        label: 'Authorize market',
+        run: withSigner((signer) => authorizeMarket(signer, contracts), 'Failed to set operator.'),
+      },
+    },
+    {
+      title: 'Place your first bet',
+      description: 'Pick an option on any open market below and stake an encrypted amount.',
+      done: hasPlacedBet,
+    },
+  ];
+
+  const currentIndex = steps.findIndex((step) => !step.done);
+  if (currentIndex === -1 || (address && operator.isLoading)) {
+    return null;
+  }
+
+  return (
+    <section className="onboarding-guide">
+      <h2>Get started</h2>
+      <ol className="onboarding-guide__steps">
+        {steps.map((step, index) => {
+          const state = step.done ? 'done' : index === currentIndex ? 'current' : 'pending';
+          return (
+            <li key={step.title} className={`onboarding-guide__step onboarding-guide__step--${state}`}>
+              <div>
+                <strong>{step.title}</strong>
+                <p>{step.description}</p>
+              </div>
+              {state === 'current' && step.action ? (
+                <button className="primary-button" onClick={step.action.run} disabled={isRunning}>
+                  {isRunning ? 'Sending...' : step.action.label}
+                </button>
+              ) : null}
+            </li>
+          );
+        })}
+      </ol>
+      {status ? <p className="status-line">{status}</p> : null}
+    </section>
+  );
+}
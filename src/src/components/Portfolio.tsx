@@ -0,0 +1,377 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Contract, type JsonRpcSigner } from 'ethers';
+import { useReadContract } from 'wagmi';
+import type { UserDecryptResults } from '@zama-fhe/relayer-sdk/bundle';
+
+import { ZERO_TRUST_PREDICT_ABI, ZERO_TRUST_PREDICT_LENS_ABI } from '../config/contracts';
+import { useChainConfig } from '../hooks/useChainConfig';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
+import { useMarketEvents } from '../hooks/useMarketEvents';
+import { toChainData } from '../hooks/usePredictionFeed';
+import type { PredictionChainData } from './PredictionApp';
+import { describeFheError } from '../utils/fhe';
+import { formatDateTime, formatTokenAmount } from '../utils/format';
+import '../styles/Portfolio.css';
+
+interface Props {
+  address?: `0x${string}`;
+  zamaLoading: boolean;
+  signerPromise?: Promise<JsonRpcSigner>;
+  onActionComplete: () => void;
+}
+
+type SortKey = 'status' | 'stake' | 'newest';
+
+type DecryptedPosition = {
+  stake: bigint;
+  choice: number;
+};
+
+type PositionStatus = {
+  label: string;
+  rank: number;
+  tone: 'claimable' | 'pending' | 'open' | 'settled';
+};
+
+type PortfolioEntry = {
+  prediction: PredictionChainData;
+  stakeHandle: `0x${string}`;
+  choiceHandle: `0x${string}`;
+  claimed: boolean;
+  status: PositionStatus;
+  decrypted?: DecryptedPosition;
+  payout?: bigint;
+};
+
+// The relayer decrypts at most 2048 bits per request; a position is a euint64 stake plus a euint8 choice.
+// Larger portfolios are split into several requests that all reuse the decryption session's signature.
+const POSITIONS_PER_DECRYPT = Math.floor(2048 / (64 + 8));
+
+const describeStatus = (prediction: PredictionChainData, claimed: boolean, now: number): PositionStatus => {
+  if (prediction.cancelled) {
+    return claimed
+      ? { label: 'Refunded', rank: 5, tone: 'settled' }
+      : { label: 'Refund available', rank: 0, tone: 'claimable' };
+  }
+  if (prediction.resolved) {
+    if (claimed) {
+      return { label: 'Claimed', rank: 5, tone: 'settled' };
+    }
+    return prediction.payoutsPublished
+      ? { label: 'Claimable', rank: 0, tone: 'claimable' }
+      : { label: 'Awaiting payout totals', rank: 1, tone: 'pending' };
+  }
+  if (prediction.disputed) {
+    return { label: 'Disputed', rank: 2, tone: 'pending' };
+  }
+  if (prediction.proposed) {
+    return { label: 'Outcome proposed', rank: 2, tone: 'pending' };
+  }
+  if (prediction.active && now < prediction.closesAt) {
+    return { label: 'Open', rank: 4, tone: 'open' };
+  }
+  return { label: 'Awaiting outcome', rank: 3, tone: 'pending' };
+};
+
+// Mirrors the contract's payout: the stake back when nobody won (or on cancellation), otherwise a pro-rata
+// share of the published payout pot for winning choices and nothing for the others
+const estimatePayout = (
+  prediction: PredictionChainData,
+  claimed: boolean,
+  decrypted?: DecryptedPosition,
+): bigint | undefined => {
+  if (claimed) {
+    return 0n;
+  }
+  if (!decrypted) {
+    return undefined;
+  }
+  if (prediction.cancelled) {
+    return decrypted.stake;
+  }
+  if (!prediction.resolved || !prediction.payoutsPublished) {
+    return undefined;
+  }
+  if (prediction.winningStake === 0n) {
+    return decrypted.stake;
+  }
+  if (decrypted.choice !== prediction.winningOption) {
+    return 0n;
+  }
+  return (decrypted.stake * prediction.payoutPot) / prediction.winningStake;
+};
+
+export function Portfolio({ address, zamaLoading, signerPromise, onActionComplete }: Props) {
+  const [sortKey, setSortKey] = useState<SortKey>('status');
+  const [decrypted, setDecrypted] = useState<Record<number, DecryptedPosition>>({});
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [settlingId, setSettlingId] = useState<number | null>(null);
+  const [statusMessage, setStatusMessage] = useState('');
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const { userDecrypt } = useDecryptionSession();
+  const { contracts } = useChainConfig();
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Math.floor(Date.now() / 1000)), 30000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    setDecrypted({});
+    setStatusMessage('');
+  }, [address]);
+
+  const { data: predictionIdsData, refetch: refetchPredictionIds } = useReadContract({
+    address: contracts.zeroTrustPredict,
+    abi: ZERO_TRUST_PREDICT_ABI,
+    functionName: 'getUserPredictionIds',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: Boolean(address),
+    },
+  });
+
+  const predictionIds = useMemo(() => [...(predictionIdsData ?? [])], [predictionIdsData]);
+
+  const {
+    data: summariesData,
+    refetch: refetchSummaries,
+    isLoading: isLoadingSummaries,
+  } = useReadContract({
+    address: contracts.lens,
+    abi: ZERO_TRUST_PREDICT_LENS_ABI,
+    functionName: 'getPredictionSummaries',
+    args: [predictionIds],
+    query: {
+      enabled: predictionIds.length > 0,
+    },
+  });
+
+  const { data: positionsData, refetch: refetchPositions } = useReadContract({
+    address: contracts.lens,
+    abi: ZERO_TRUST_PREDICT_LENS_ABI,
+    functionName: 'getUserPositions',
+    args: address ? [address, predictionIds] : undefined,
+    query: {
+      enabled: Boolean(address && predictionIds.length > 0),
+    },
+  });
+
+  const entries: PortfolioEntry[] = useMemo(() => {
+    if (!summariesData || !positionsData) {
+      return [];
+    }
+    return summariesData.map((summary, index) => {
+      const prediction = toChainData(summary);
+      const position = positionsData[index];
+      const decryptedPosition = decrypted[prediction.id];
+      return {
+        prediction,
+        stakeHandle: position.stake,
+        choiceHandle: position.choice,
+        claimed: position.claimed,
+        status: describeStatus(prediction, position.claimed, now),
+        decrypted: decryptedPosition,
+        payout: estimatePayout(prediction, position.claimed, decryptedPosition),
+      };
+    });
+  }, [summariesData, positionsData, decrypted, now]);
+
+  const sortedEntries = useMemo(() => {
+    const sorted = [...entries];
+    if (sortKey === 'status') {
+      sorted.sort((a, b) => a.status.rank - b.status.rank || b.prediction.id - a.prediction.id);
+    } else if (sortKey === 'stake') {
+      const stakeOf = (entry: PortfolioEntry) => entry.decrypted?.stake ?? -1n;
+      sorted.sort((a, b) => (stakeOf(b) > stakeOf(a) ? 1 : stakeOf(b) < stakeOf(a) ? -1 : 0));
+    } else {
+      sorted.sort((a, b) => b.prediction.id - a.prediction.id);
+    }
+    return sorted;
+  }, [entries, sortKey]);
+
+  const totals = useMemo(() => {
+    const isDecrypted = entries.length > 0 && entries.every((entry) => entry.decrypted);
+    return {
+      markets: entries.length,
+      open: entries.filter((entry) => entry.status.tone === 'open').length,
+      staked: isDecrypted ? entries.reduce((sum, entry) => sum + (entry.decrypted?.stake ?? 0n), 0n) : undefined,
+      claimable: isDecrypted ? entries.reduce((sum, entry) => sum + (entry.payout ?? 0n), 0n) : undefined,
+    };
+  }, [entries]);
+
+  const handleRefresh = () => {
+    refetchPredictionIds?.();
+    refetchSummaries?.();
+    refetchPositions?.();
+  };
+
+  useMarketEvents(address, {
+    onPredictionChanged: (predictionId) => {
+      if (predictionIds.some((id) => Number(id) === predictionId)) {
+        refetchSummaries();
+      }
+    },
+    onPositionChanged: (_predictionId, bettor) => {
+      if (address && bettor.toLowerCase() === address.toLowerCase()) {
+        handleRefresh();
+      }
+    },
+  });
+
+  const handleDecryptAll = async () => {
+    if (!address) {
+      alert('Connect a wallet to decrypt your positions.');
+      return;
+    }
+    if (entries.length === 0) {
+      setStatusMessage('No positions to decrypt yet.');
+      return;
+    }
+    setIsDecrypting(true);
+    setStatusMessage('');
+    try {
+      const result: UserDecryptResults = {};
+      for (let start = 0; start < entries.length; start += POSITIONS_PER_DECRYPT) {
+        const handlePairs = entries.slice(start, start + POSITIONS_PER_DECRYPT).flatMap((entry) => [
+          { handle: entry.stakeHandle, contractAddress: contracts.zeroTrustPredict },
+          { handle: entry.choiceHandle, contractAddress: contracts.zeroTrustPredict },
+        ]);
+        Object.assign(result, await userDecrypt(handlePairs));
+      }
+
+      const next: Record<number, DecryptedPosition> = {};
+      for (const entry of entries) {
+        next[entry.prediction.id] = {
+          stake: BigInt(result[entry.stakeHandle] ?? 0),
+          choice: Number(result[entry.choiceHandle] ?? 0),
+        };
+      }
+      setDecrypted(next);
+      setStatusMessage(`Decrypted ${entries.length} positions with a single signature.`);
+    } catch (error) {
+      console.error(error);
+      setStatusMessage(describeFheError(error, 'Failed to decrypt positions.'));
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const handleSettle = async (entry: PortfolioEntry) => {
+    if (!signerPromise) {
+      alert('Connect a wallet to continue.');
+      return;
+    }
+    setSettlingId(entry.prediction.id);
+    setStatusMessage('');
+    try {
+      const signer = await signerPromise;
+      const contract = new Contract(contracts.zeroTrustPredict, ZERO_TRUST_PREDICT_ABI, signer);
+      const tx = entry.prediction.cancelled
+        ? await contract.refund(entry.prediction.id)
+        : await contract.claimWinnings(entry.prediction.id);
+      await tx.wait();
+      setStatusMessage(`Settled "${entry.prediction.title}". Decrypt your balance to see the payout.`);
+      handleRefresh();
+      onActionComplete();
+    } catch (error) {
+      console.error(error);
+      setStatusMessage('Failed to settle the position.');
+    } finally {
+      setSettlingId(null);
+    }
+  };
+
+  return (
+    <section className="portfolio">
+      <div className="portfolio__header">
+        <div>
+          <h2>Portfolio</h2>
+          <p>Every market you joined, decrypted with a single wallet signature.</p>
+        </div>
+        <div className="portfolio__actions">
+          <select value={sortKey} onChange={(event) => setSortKey(event.target.value as SortKey)}>
+            <option value="status">Sort by status</option>
+            <option value="stake">Sort by stake</option>
+            <option value="newest">Sort by newest</option>
+          </select>
+          <button
+            className="primary-button"
+            onClick={handleDecryptAll}
+            disabled={isDecrypting || zamaLoading || entries.length === 0}
+          >
+            {isDecrypting ? 'Decrypting...' : 'Decrypt all positions'}
+          </button>
+        </div>
+      </div>
+
+      <div className="portfolio__totals">
+        <div>
+          <span>Markets joined</span>
+          <strong>{totals.markets}</strong>
+        </div>
+        <div>
+          <span>Still open</span>
+          <strong>{totals.open}</strong>
+        </div>
+        <div>
+          <span>Total staked</span>
+          <strong>{totals.staked !== undefined ? `${formatTokenAmount(totals.staked)} PCoin` : '***'}</strong>
+        </div>
+        <div>
+          <span>Claimable now</span>
+          <strong>{totals.claimable !== undefined ? `${formatTokenAmount(totals.claimable)} PCoin` : '***'}</strong>
+        </div>
+      </div>
+
+      {!address ? (
+        <div className="empty-state">
+          <h3>Connect a wallet</h3>
+          <p>Your positions are encrypted; connect the wallet that placed them to see your portfolio.</p>
+        </div>
+      ) : sortedEntries.length === 0 ? (
+        <div className="empty-state">
+          <h3>{isLoadingSummaries ? 'Loading positions...' : 'No positions yet'}</h3>
+          <p>Place an encrypted selection on a market and it will show up here.</p>
+        </div>
+      ) : (
+        <div className="portfolio__rows">
+          {sortedEntries.map((entry) => {
+            const { prediction, decrypted: position, payout, status } = entry;
+            const canSettle = status.tone === 'claimable';
+            return (
+              <div className="portfolio-row" key={prediction.id}>
+                <div className="portfolio-row__market">
+                  <h3>{prediction.title}</h3>
+                  <p>Closes {formatDateTime(prediction.closesAt)}</p>
+                </div>
+                <span className={`portfolio-status portfolio-status--${status.tone}`}>{status.label}</span>
+                <div>
+                  <span className="portfolio-row__label">Your choice</span>
+                  <p>{position ? (prediction.options[position.choice] ?? `Option #${position.choice + 1}`) : '***'}</p>
+                </div>
+                <div>
+                  <span className="portfolio-row__label">Stake</span>
+                  <p>{position ? `${formatTokenAmount(position.stake)} PCoin` : '***'}</p>
+                </div>
+                <div>
+                  <span className="portfolio-row__label">{entry.claimed ? 'Paid out' : 'Payout'}</span>
+                  <p>{entry.claimed ? 'Settled' : payout !== undefined ? `${formatTokenAmount(payout)} PCoin` : '—'}</p>
+                </div>
+                <button
+                  className="ghost-button"
+                  onClick={() => handleSettle(entry)}
+                  disabled={!canSettle || settlingId !== null}
+                >
+                  {settlingId === prediction.id ? 'Settling...' : prediction.cancelled ? 'Refund' : 'Claim'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {statusMessage ? <p className="status-line">{statusMessage}</p> : null}
+    </section>
+  );
+}
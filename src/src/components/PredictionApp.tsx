@@ -1,17 +1,20 @@
-import { useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useAccount, useReadContract, useReadContracts } from 'wagmi';
 
-import {
-  PREDICT_COIN_ABI,
-  PREDICT_COIN_ADDRESS,
-  ZERO_TRUST_PREDICT_ABI,
-  ZERO_TRUST_PREDICT_ADDRESS,
-} from '../config/contracts';
+import { PREDICT_COIN_ABI, ZERO_TRUST_PREDICT_ABI, ZERO_TRUST_PREDICT_LENS_ABI } from '../config/contracts';
+import { useChainConfig } from '../hooks/useChainConfig';
 import { useZamaInstance } from '../hooks/useZamaInstance';
 import { useEthersSigner } from '../hooks/useEthersSigner';
+import { usePredictionFeed, type PredictionFilter } from '../hooks/usePredictionFeed';
+import { useMarketEvents } from '../hooks/useMarketEvents';
+import { useOperatorStatus } from '../hooks/useOperatorStatus';
+import { createFheClient } from '../utils/fhe';
+import { DecryptionSessionProvider } from './DecryptionSessionProvider';
 import { Header } from './Header';
+import { OnboardingGuide } from './OnboardingGuide';
 import { CreatePredictionForm } from './CreatePredictionForm';
 import { PredictionCard } from './PredictionCard';
+import { Portfolio } from './Portfolio';
 import { TokenPanel } from './TokenPanel';
 import '../styles/PredictionApp.css';
 
@@ -21,94 +24,125 @@ export type PredictionChainData = {
   creator: `0x${string}`;
   active: boolean;
   createdAt: number;
+  closesAt: number;
+  resolveBy: number;
+  tallyVisibility: number;
   options: string[];
   encryptedCounts: `0x${string}`[];
   encryptedStakes: `0x${string}`[];
   totalEncryptedStake: `0x${string}`;
+  proposed: boolean;
+  disputed: boolean;
+  resolved: boolean;
+  cancelled: boolean;
+  winningOption: number;
+  payoutsPublished: boolean;
+  winningStake: bigint;
+  payoutPot: bigint;
+  resolver?: `0x${string}`;
+  disputeEndsAt: number;
+  challenger?: `0x${string}`;
+  protocolFeeBps: number;
+  creatorFeeBps: number;
+  revealRequested: boolean;
+  revealedTallies?: {
+    counts: readonly bigint[];
+    stakes: readonly bigint[];
+    totalStake: bigint;
+  };
 };
 
+const FILTERS: { value: PredictionFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'active', label: 'Accepting bets' },
+  { value: 'mine', label: 'Created by me' },
+];
+
 export function PredictionApp() {
   const { address } = useAccount();
-  const { instance, isLoading: zamaLoading } = useZamaInstance();
-  const signerPromise = useEthersSigner();
-  const [refreshIndex, setRefreshIndex] = useState(0);
+  const { chainConfig, contracts } = useChainConfig();
+  const { instance, isLoading: zamaLoading } = useZamaInstance(chainConfig.fhe);
+  // Pinned to the active chain, so no transaction is ever signed while the wallet sits on another network
+  const signerPromise = useEthersSigner({ chainId: chainConfig.chain.id });
+  const fhe = useMemo(
+    () => (instance ? createFheClient(instance, contracts, address) : null),
+    [instance, contracts, address],
+  );
+  const [view, setView] = useState<'markets' | 'portfolio'>('markets');
+  const [filter, setFilter] = useState<PredictionFilter>('all');
+  const loadMoreRef = useRef<HTMLDivElement | null>(null);
 
   const {
-    data: predictionCountData,
-    refetch: refetchPredictionCount,
-    isFetching: isFetchingCount,
-  } = useReadContract({
-    address: ZERO_TRUST_PREDICT_ADDRESS,
+    predictions: loadedPredictions,
+    total,
+    isLoading: isLoadingPredictions,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+    refetch: refetchPredictions,
+    refreshPrediction,
+  } = usePredictionFeed(filter, address);
+  const [changedIds, setChangedIds] = useState<ReadonlySet<number>>(() => new Set());
+
+  const { data: arbiterData } = useReadContract({
+    address: contracts.zeroTrustPredict,
     abi: ZERO_TRUST_PREDICT_ABI,
-    functionName: 'predictionsCount',
+    functionName: 'arbiter',
   });
 
-  const predictionCount = Number(predictionCountData ?? 0n);
+  const loadedIds = useMemo(() => loadedPredictions.map((prediction) => BigInt(prediction.id)), [loadedPredictions]);
 
-  const predictionContracts = useMemo(() => {
-    if (!predictionCount) {
-      return [];
-    }
-    return Array.from({ length: predictionCount }, (_, index) => ({
-      address: ZERO_TRUST_PREDICT_ADDRESS,
-      abi: ZERO_TRUST_PREDICT_ABI,
-      functionName: 'getPrediction',
-      args: [BigInt(index)],
-    }));
-  }, [predictionCount, refreshIndex]);
+  const revealContracts = useMemo(
+    () =>
+      loadedIds.map((id) => ({
+        address: contracts.zeroTrustPredict,
+        abi: ZERO_TRUST_PREDICT_ABI,
+        functionName: 'getRevealedTallies' as const,
+        args: [id] as const,
+      })),
+    [loadedIds, contracts.zeroTrustPredict],
+  );
 
-  const {
-    data: predictionsData,
-    isLoading: isLoadingPredictions,
-    refetch: refetchPredictions,
-  } = useReadContracts({
-    contracts: predictionContracts,
+  const { data: revealsData, refetch: refetchReveals } = useReadContracts({
+    contracts: revealContracts,
     query: {
-      enabled: predictionCount > 0,
+      enabled: loadedIds.length > 0,
     },
   });
 
-  const userContracts = useMemo(() => {
-    if (!address || !predictionCount) {
+  const { data: userPredictionIdsData, refetch: refetchUserPredictionIds } = useReadContract({
+    address: contracts.zeroTrustPredict,
+    abi: ZERO_TRUST_PREDICT_ABI,
+    functionName: 'getUserPredictionIds',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: Boolean(address),
+    },
+  });
+
+  // Only markets the user bet on or created can hold a position or tally access worth fetching
+  const touchedIds = useMemo(() => {
+    if (!address) {
       return [];
     }
-    const items: {
-      address: typeof ZERO_TRUST_PREDICT_ADDRESS;
-      abi: typeof ZERO_TRUST_PREDICT_ABI;
-      functionName: 'getUserStake' | 'getUserChoice';
-      args: readonly [bigint, `0x${string}`];
-    }[] = [];
-    for (let i = 0; i < predictionCount; i++) {
-      const id = BigInt(i);
-      items.push({
-        address: ZERO_TRUST_PREDICT_ADDRESS,
-        abi: ZERO_TRUST_PREDICT_ABI,
-        functionName: 'getUserStake',
-        args: [id, address],
-      });
-      items.push({
-        address: ZERO_TRUST_PREDICT_ADDRESS,
-        abi: ZERO_TRUST_PREDICT_ABI,
-        functionName: 'getUserChoice',
-        args: [id, address],
-      });
-    }
-    return items;
-  }, [address, predictionCount, refreshIndex]);
+    const betIds = new Set((userPredictionIdsData ?? []).map((id) => Number(id)));
+    return loadedPredictions
+      .filter((prediction) => betIds.has(prediction.id) || prediction.creator.toLowerCase() === address.toLowerCase())
+      .map((prediction) => BigInt(prediction.id));
+  }, [address, userPredictionIdsData, loadedPredictions]);
 
-  const {
-    data: userEncryptedData,
-    refetch: refetchUserEncrypted,
-    isLoading: isLoadingUserEncrypted,
-  } = useReadContracts({
-    contracts: userContracts,
+  const { data: userPositionsData, refetch: refetchUserPositions } = useReadContract({
+    address: contracts.lens,
+    abi: ZERO_TRUST_PREDICT_LENS_ABI,
+    functionName: 'getUserPositions',
+    args: address ? [address, touchedIds] : undefined,
     query: {
-      enabled: Boolean(address && predictionCount > 0),
+      enabled: Boolean(address && touchedIds.length > 0),
     },
   });
 
   const { data: balanceCiphertext, refetch: refetchBalance } = useReadContract({
-    address: PREDICT_COIN_ADDRESS,
+    address: contracts.predictCoin,
     abi: PREDICT_COIN_ABI,
     functionName: 'confidentialBalanceOf',
     args: address ? [address] : undefined,
@@ -117,39 +151,33 @@ export function PredictionApp() {
     },
   });
 
-  const predictions: PredictionChainData[] = useMemo(() => {
-    if (!predictionsData) {
-      return [];
-    }
-    return predictionsData
-      .map((row, index) => {
-        if (!row || row.status !== 'success' || !row.result) {
-          return null;
-        }
-        const result = row.result as unknown as [
-          string,
-          `0x${string}`,
-          boolean,
-          bigint,
-          string[],
-          `0x${string}`[],
-          `0x${string}`[],
-          `0x${string}`,
-        ];
+  const operator = useOperatorStatus(address);
+  // Uninitialized balances read as bytes32(0) until the account receives PredictCoin for the first time
+  const hasBalance = Boolean(balanceCiphertext && BigInt(balanceCiphertext) !== 0n);
+  const hasPlacedBet = (userPredictionIdsData?.length ?? 0) > 0;
+  // Staking pulls PredictCoin through `confidentialTransferFrom`, which reverts without these prerequisites
+  const stakeBlockedReason = !address
+    ? 'Connect a wallet to stake.'
+    : !hasBalance
+      ? 'Claim PredictCoin from the faucet before staking.'
+      : !operator.isAuthorized
+        ? 'Authorize the market to move your PredictCoin before staking.'
+        : undefined;
+
+  const predictions: PredictionChainData[] = useMemo(
+    () =>
+      loadedPredictions.map((prediction, index) => {
+        const revealRow = revealsData?.[index];
+        const reveal = revealRow && revealRow.status === 'success' ? revealRow.result : undefined;
         return {
-          id: index,
-          title: result[0],
-          creator: result[1],
-          active: result[2],
-          createdAt: Number(result[3]),
-          options: result[4],
-          encryptedCounts: result[5],
-          encryptedStakes: result[6],
-          totalEncryptedStake: result[7],
-        } as PredictionChainData;
-      })
-      .filter((item): item is PredictionChainData => Boolean(item));
-  }, [predictionsData]);
+          ...prediction,
+          revealRequested: reveal ? reveal[0] : prediction.revealRequested,
+          revealedTallies:
+            reveal && reveal[1] ? { counts: reveal[2], stakes: reveal[3], totalStake: reveal[4] } : undefined,
+        };
+      }),
+    [loadedPredictions, revealsData],
+  );
 
   const userPredictionData = useMemo(() => {
     const data: Record<
@@ -157,95 +185,212 @@ export function PredictionApp() {
       {
         stake?: `0x${string}`;
         choice?: `0x${string}`;
+        claimed?: boolean;
+        canDecryptTallies?: boolean;
       }
     > = {};
-    if (!userEncryptedData || !address) {
+    if (!userPositionsData || !address) {
       return data;
     }
-    userEncryptedData.forEach((entry, index) => {
-      if (!entry || entry.status !== 'success' || !entry.result) {
-        return;
+    for (const position of userPositionsData) {
+      data[Number(position.predictionId)] = {
+        stake: position.participated ? position.stake : undefined,
+        choice: position.participated ? position.choice : undefined,
+        claimed: position.claimed,
+        canDecryptTallies: position.canDecryptTallies,
+      };
+    }
+    return data;
+  }, [userPositionsData, address]);
+
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) {
+      return;
+    }
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting) && !isFetchingNextPage) {
+        fetchNextPage();
       }
-      const predictionIndex = Math.floor(index / 2);
-      if (!data[predictionIndex]) {
-        data[predictionIndex] = {};
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  useMarketEvents(address, {
+    // New markets can land on any page of the current filter, so the loaded pages are read again
+    onPredictionCreated: () => {
+      refetchPredictions();
+    },
+    onPredictionChanged: (predictionId) => {
+      refreshPrediction(predictionId).catch((error) => console.error('Failed to refresh prediction:', error));
+      setChangedIds((current) => new Set(current).add(predictionId));
+    },
+    onPositionChanged: (_predictionId, bettor) => {
+      if (address && bettor.toLowerCase() === address.toLowerCase()) {
+        refetchUserPredictionIds();
+        refetchUserPositions();
       }
-      if (index % 2 === 0) {
-        data[predictionIndex].stake = entry.result as `0x${string}`;
-      } else {
-        data[predictionIndex].choice = entry.result as `0x${string}`;
+    },
+    onTalliesRevealed: () => {
+      refetchReveals();
+    },
+    onBalanceChanged: () => {
+      refetchBalance();
+    },
+  });
+
+  const markDecrypted = (predictionId: number) => {
+    setChangedIds((current) => {
+      if (!current.has(predictionId)) {
+        return current;
       }
+      const next = new Set(current);
+      next.delete(predictionId);
+      return next;
     });
-    return data;
-  }, [userEncryptedData, address]);
-
-  const handleRefresh = () => {
-    setRefreshIndex((value) => value + 1);
-    refetchPredictionCount?.();
-    refetchPredictions?.();
-    refetchUserEncrypted?.();
-    refetchBalance?.();
   };
 
-  const showEmptyState = predictionCount === 0 && !isFetchingCount;
+  // Onboarding, faucet and portfolio actions only change the connected account's balance, authorization and bets
+  const refreshAccount = () => {
+    refetchBalance();
+    refetchUserPredictionIds();
+    refetchUserPositions();
+    operator.refetch();
+  };
+
+  // Card actions touch a single prediction, so only that one is read again along with the account
+  const refreshAfterAction = (predictionId: number) => {
+    refreshPrediction(predictionId).catch((error) => console.error('Failed to refresh prediction:', error));
+    refetchReveals();
+    refreshAccount();
+  };
+
+  const showEmptyState = predictions.length === 0 && !isLoadingPredictions;
+  const countLabel = isLoadingPredictions
+    ? 'Loading...'
+    : total !== undefined
+      ? `${total} total`
+      : `${predictions.length} shown`;
 
   return (
-    <div className="prediction-app">
-      <Header />
-      <main className="prediction-body">
-        <TokenPanel
-          address={address}
-          balanceHandle={balanceCiphertext as `0x${string}` | undefined}
-          instance={instance}
-          signerPromise={signerPromise}
-          zamaLoading={zamaLoading}
-          onRefetch={handleRefresh}
-        />
-        <div className="prediction-layout">
-          <CreatePredictionForm signerPromise={signerPromise} onCreated={handleRefresh} />
-
-          <section className="prediction-list">
-            <div className="prediction-list__header">
-              <div>
-                <h2>Live Predictions</h2>
-                <p>Encrypted selections and stakes are updated in real time.</p>
-              </div>
-              <div className="prediction-list__meta">
-                <span className="prediction-count">
-                  {isFetchingCount ? 'Loading...' : `${predictionCount} total`}
-                </span>
-                <button className="ghost-button" onClick={handleRefresh}>
-                  Refresh
-                </button>
-              </div>
-            </div>
+    <DecryptionSessionProvider fhe={fhe} signerPromise={signerPromise} address={address}>
+      <div className="prediction-app">
+        <Header />
+        <main className="prediction-body">
+          <OnboardingGuide
+            address={address}
+            signerPromise={signerPromise}
+            hasBalance={hasBalance}
+            operator={operator}
+            hasPlacedBet={hasPlacedBet}
+            onStepComplete={refreshAccount}
+          />
+          <TokenPanel
+            address={address}
+            balanceHandle={balanceCiphertext}
+            signerPromise={signerPromise}
+            zamaLoading={zamaLoading}
+            operator={operator}
+            onRefetch={refreshAccount}
+          />
+          <div className="view-tabs">
+            <button
+              className={`filter-chip ${view === 'markets' ? 'filter-chip--active' : ''}`}
+              onClick={() => setView('markets')}
+            >
+              Markets
+            </button>
+            <button
+              className={`filter-chip ${view === 'portfolio' ? 'filter-chip--active' : ''}`}
+              onClick={() => setView('portfolio')}
+            >
+              Portfolio
+            </button>
+          </div>
+          {view === 'portfolio' ? (
+            <Portfolio
+              address={address}
+              zamaLoading={zamaLoading}
+              signerPromise={signerPromise}
+              onActionComplete={refreshAccount}
+            />
+          ) : (
+            <div className="prediction-layout">
+              <CreatePredictionForm signerPromise={signerPromise} onCreated={() => refetchPredictions()} />
 
-            {showEmptyState ? (
-              <div className="empty-state">
-                <h3>No predictions created yet</h3>
-                <p>Create the first encrypted market and invite others to stake PredictCoin.</p>
-              </div>
-            ) : (
-              <div className="prediction-cards">
-                {predictions.map((prediction) => (
-                  <PredictionCard
-                    key={prediction.id}
-                    prediction={prediction}
-                    zamaInstance={instance}
-                    signerPromise={signerPromise}
-                    address={address}
-                    zamaLoading={zamaLoading}
-                    userStakeHandle={userPredictionData[prediction.id]?.stake}
-                    userChoiceHandle={userPredictionData[prediction.id]?.choice}
-                    onActionComplete={handleRefresh}
-                    isLoadingRead={isLoadingPredictions || isLoadingUserEncrypted}
-                  />
-                ))}
-              </div>
-            )}
-          </section>
-        </div>
-      </main>
-    </div>
+              <section className="prediction-list">
+                <div className="prediction-list__header">
+                  <div>
+                    <h2>Live Predictions</h2>
+                    <p>Encrypted selections and stakes update live as new activity lands on-chain.</p>
+                  </div>
+                  <div className="prediction-list__meta">
+                    <span className="prediction-count">{countLabel}</span>
+                  </div>
+                </div>
+
+                <div className="prediction-filters">
+                  {FILTERS.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      className={`filter-chip ${filter === value ? 'filter-chip--active' : ''}`}
+                      onClick={() => setFilter(value)}
+                      disabled={value === 'mine' && !address}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+
+                {showEmptyState ? (
+                  <div className="empty-state">
+                    {filter === 'all' ? (
+                      <>
+                        <h3>No predictions created yet</h3>
+                        <p>Create the first encrypted market and invite others to stake PredictCoin.</p>
+                      </>
+                    ) : (
+                      <>
+                        <h3>No matching predictions</h3>
+                        <p>Try another filter or create a new encrypted market.</p>
+                      </>
+                    )}
+                  </div>
+                ) : (
+                  <div className="prediction-cards">
+                    {predictions.map((prediction) => (
+                      <PredictionCard
+                        key={prediction.id}
+                        prediction={prediction}
+                        fhe={fhe}
+                        signerPromise={signerPromise}
+                        address={address}
+                        zamaLoading={zamaLoading}
+                        stakeBlockedReason={stakeBlockedReason}
+                        balanceHandle={balanceCiphertext}
+                        userStakeHandle={userPredictionData[prediction.id]?.stake}
+                        userChoiceHandle={userPredictionData[prediction.id]?.choice}
+                        userClaimed={userPredictionData[prediction.id]?.claimed}
+                        canDecryptTallies={userPredictionData[prediction.id]?.canDecryptTallies}
+                        arbiter={arbiterData}
+                        hasNewActivity={changedIds.has(prediction.id)}
+                        onDecrypted={() => markDecrypted(prediction.id)}
+                        onActionComplete={() => refreshAfterAction(prediction.id)}
+                      />
+                    ))}
+                    {hasNextPage ? (
+                      <div ref={loadMoreRef} className="prediction-list__sentinel">
+                        {isFetchingNextPage ? 'Loading more predictions...' : ''}
+                      </div>
+                    ) : null}
+                  </div>
+                )}
+              </section>
+            </div>
+          )}
+        </main>
+      </div>
+    </DecryptionSessionProvider>
   );
 }
@@ -1,54 +1,194 @@
-import { useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Contract, type JsonRpcSigner } from 'ethers';
+import type { HandleContractPair, UserDecryptResults } from '@zama-fhe/relayer-sdk/bundle';
 
-import {
-  PREDICT_COIN_ADDRESS,
-  ZERO_TRUST_PREDICT_ABI,
-  ZERO_TRUST_PREDICT_ADDRESS,
-} from '../config/contracts';
+import { ZERO_TRUST_PREDICT_ABI } from '../config/contracts';
+import { useChainConfig } from '../hooks/useChainConfig';
 import type { PredictionChainData } from './PredictionApp';
-import { formatAddress, formatDateTime, formatTokenAmount, parseAmountInput } from '../utils/format';
+import { ErrorFixButton } from './ErrorFixButton';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
+import { describeContractError, type ContractErrorMessage } from '../utils/contractErrors';
+import type { FheClient } from '../utils/fhe';
+import {
+  formatAddress,
+  formatBps,
+  formatCountdown,
+  formatDateTime,
+  formatTokenAmount,
+  parseAmountInput,
+} from '../utils/format';
 import '../styles/PredictionCard.css';
 
 interface Props {
   prediction: PredictionChainData;
-  zamaInstance: any;
+  fhe: FheClient | null;
   signerPromise?: Promise<JsonRpcSigner>;
   address?: `0x${string}`;
   zamaLoading: boolean;
+  /** Set while the account cannot stake yet, disables every action that moves PredictCoin */
+  stakeBlockedReason?: string;
+  balanceHandle?: `0x${string}`;
   userStakeHandle?: `0x${string}`;
   userChoiceHandle?: `0x${string}`;
+  userClaimed?: boolean;
+  canDecryptTallies?: boolean;
+  arbiter?: `0x${string}`;
+  hasNewActivity?: boolean;
+  onDecrypted?: () => void;
   onActionComplete: () => void;
-  isLoadingRead: boolean;
 }
 
+const VISIBILITY_LABELS = ['Hidden until close', 'Visible to creator', 'Visible to bettors'];
+// TallyVisibility.Bettors, where each bettor pulls access to the tallies other bets replaced
+const BETTORS_VISIBILITY = 2;
+
 type DecryptionResult = {
   counts: string[];
   stakes: string[];
-  totalStake: string;
+  totalStake?: string;
   userStake?: string;
   userChoice?: number;
 };
 
 export function PredictionCard({
   prediction,
-  zamaInstance,
+  fhe,
   signerPromise,
   address,
   zamaLoading,
+  stakeBlockedReason,
+  balanceHandle,
   userStakeHandle,
   userChoiceHandle,
+  userClaimed,
+  canDecryptTallies,
+  arbiter,
+  hasNewActivity,
+  onDecrypted,
   onActionComplete,
-  isLoadingRead,
 }: Props) {
   const [selectedOption, setSelectedOption] = useState<number | null>(null);
+  const { contracts } = useChainConfig();
   const [amountInput, setAmountInput] = useState('');
-  const [statusMessage, setStatusMessage] = useState('');
+  const [status, setStatus] = useState<ContractErrorMessage>({ message: '' });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDecrypting, setIsDecrypting] = useState(false);
+  const [isSettling, setIsSettling] = useState(false);
   const [decryptedData, setDecryptedData] = useState<DecryptionResult | null>(null);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const { expiresAt, readCached, userDecrypt } = useDecryptionSession();
+  const hasDecryptionSession = expiresAt !== undefined;
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
 
   const createdAtText = useMemo(() => formatDateTime(prediction.createdAt), [prediction.createdAt]);
+  const isCreator = Boolean(address && address.toLowerCase() === prediction.creator.toLowerCase());
+  const canResolve = prediction.resolver
+    ? Boolean(address && address.toLowerCase() === prediction.resolver.toLowerCase())
+    : isCreator;
+  // Uninitialized encrypted handles are returned as bytes32(0) until the user places a selection
+  const hasPosition = Boolean(userStakeHandle && BigInt(userStakeHandle) !== 0n);
+  const canClaim = Boolean(prediction.payoutsPublished && hasPosition && !userClaimed);
+  const isClosed = now >= prediction.closesAt;
+  const isSettled = prediction.proposed || prediction.disputed || prediction.resolved || prediction.cancelled;
+  const disputeWindowOpen = prediction.proposed && now < prediction.disputeEndsAt;
+  // A proposed outcome with a challenger has a challenge waiting for its bond to be confirmed
+  const challengePending = prediction.proposed && Boolean(prediction.challenger);
+  const arbitrationLapsed = prediction.disputed && now > prediction.disputeEndsAt;
+  const isArbiter = Boolean(address && arbiter && address.toLowerCase() === arbiter.toLowerCase());
+  const canRefund = Boolean(prediction.cancelled && hasPosition && !userClaimed);
+  const resolveDeadlineLapsed = Boolean(prediction.resolveBy && now > prediction.resolveBy);
+  const canCancel = (!isSettled && (isCreator || resolveDeadlineLapsed)) || arbitrationLapsed;
+  const revealed = prediction.revealedTallies;
+  const canReveal = !revealed && (isClosed || isSettled);
+  const includeTallies = Boolean(canDecryptTallies) && !revealed;
+  const canPullTallyAccess =
+    prediction.tallyVisibility === BETTORS_VISIBILITY && hasPosition && !canDecryptTallies && !revealed;
+
+  const setStatusMessage = (message: string) => setStatus({ message });
+  const reportError = (error: unknown, fallback: string) => {
+    console.error(error);
+    setStatus(describeContractError(error, fallback));
+  };
+
+  // Only a balance the user already decrypted is compared, so staking never waits for a decryption prompt
+  const exceedsCachedBalance = async (stakeValue: bigint) => {
+    if (!balanceHandle) {
+      return false;
+    }
+    const cached = await readCached([{ handle: balanceHandle, contractAddress: contracts.predictCoin }]);
+    const balance = cached[balanceHandle];
+    if (balance === undefined || stakeValue <= BigInt(balance)) {
+      return false;
+    }
+    setStatus({
+      message: `This stake is more than your balance of ${formatTokenAmount(BigInt(balance))} PCoin.`,
+      fix: 'claimFaucet',
+    });
+    return true;
+  };
+
+  /**
+   * Sends a market transaction with the connected signer and reports how it went. `send` resolves to the status
+   * to show once its transactions are mined, or to `undefined` when it stopped before sending anything.
+   */
+  const runTx = async (
+    failure: string,
+    send: (contract: Contract) => Promise<string | ContractErrorMessage | undefined>,
+    setBusy: (busy: boolean) => void = setIsSettling,
+  ) => {
+    if (!signerPromise) {
+      alert('Connect a wallet to continue.');
+      return;
+    }
+    setBusy(true);
+    setStatusMessage('');
+    try {
+      const contract = new Contract(contracts.zeroTrustPredict, ZERO_TRUST_PREDICT_ABI, await signerPromise);
+      const result = await send(contract);
+      if (result === undefined) {
+        return;
+      }
+      setStatus(typeof result === 'string' ? { message: result } : result);
+      onActionComplete();
+    } catch (error) {
+      reportError(error, failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // PredictCoin moves nothing instead of reverting when the balance is too low, so the market records an
+  // encrypted flag for the latest stake that is decrypted here to confirm the transfer
+  const checkStakeResult = async (
+    contract: Contract,
+    confirmed: string,
+    stakeValue: bigint,
+  ): Promise<ContractErrorMessage> => {
+    try {
+      const handle: `0x${string}` = await contract.getLastStakeResult(prediction.id, address);
+      const moved = (await userDecrypt([{ handle, contractAddress: contracts.zeroTrustPredict }]))[handle];
+      if (moved) {
+        return { message: confirmed };
+      }
+      // The flag is also false for a zero stake or a choice outside the options, which no faucet claim fixes
+      if (stakeValue === 0n) {
+        return { message: 'The transaction went through but the stake was zero, so no PredictCoin moved.' };
+      }
+      return {
+        message:
+          'The transaction went through but no PredictCoin stayed in the pot: either your balance is lower than the ' +
+          'stake or your encrypted choice is not one of the options.',
+        fix: 'claimFaucet',
+      };
+    } catch (error) {
+      console.error(error);
+      return { message: `${confirmed} Decrypt your position to check that the stake moved.` };
+    }
+  };
 
   const handleSelection = (index: number) => {
     setSelectedOption(index);
@@ -60,7 +200,7 @@ export function PredictionCard({
       alert('Connect a wallet to place selections.');
       return;
     }
-    if (!zamaInstance || !signerPromise) {
+    if (!fhe) {
       alert('Encryption service is not ready yet.');
       return;
     }
@@ -68,119 +208,285 @@ export function PredictionCard({
       alert('Select an option to continue.');
       return;
     }
-    try {
-      const stakeValue = parseAmountInput(amountInput);
-      setIsSubmitting(true);
-      const encryptedOption = await zamaInstance
-        .createEncryptedInput(ZERO_TRUST_PREDICT_ADDRESS, address)
-        .add8(selectedOption)
-        .encrypt();
-      const encryptedStake = await zamaInstance
-        .createEncryptedInput(PREDICT_COIN_ADDRESS, ZERO_TRUST_PREDICT_ADDRESS)
-        .add64(stakeValue)
-        .encrypt();
-
-      const signer = await signerPromise;
-      const contract = new Contract(ZERO_TRUST_PREDICT_ADDRESS, ZERO_TRUST_PREDICT_ABI, signer);
-      const tx = await contract.placeEncryptedSelection(
-        prediction.id,
-        encryptedOption.handles[0],
-        encryptedOption.inputProof,
-        encryptedStake.handles[0],
-        encryptedStake.inputProof,
-      );
-      await tx.wait();
-      setAmountInput('');
-      setStatusMessage('Encrypted selection confirmed.');
-      onActionComplete();
-    } catch (error) {
-      console.error(error);
-      setStatusMessage('Failed to submit selection.');
-    } finally {
-      setIsSubmitting(false);
+    await runTx(
+      'Failed to submit selection.',
+      async (contract) => {
+        const stakeValue = parseAmountInput(amountInput);
+        if (await exceedsCachedBalance(stakeValue)) {
+          return undefined;
+        }
+        const args = await fhe.encryptSelection(prediction.id, selectedOption, stakeValue);
+        await (await contract.placeEncryptedSelection(...args)).wait();
+        setAmountInput('');
+        return checkStakeResult(contract, 'Encrypted selection confirmed.', stakeValue);
+      },
+      setIsSubmitting,
+    );
+  };
+
+  const handleChangeChoice = async () => {
+    if (!address) {
+      alert('Connect a wallet to change your choice.');
+      return;
+    }
+    if (!fhe) {
+      alert('Encryption service is not ready yet.');
+      return;
+    }
+    if (selectedOption === null) {
+      alert('Select the option to move your stake to.');
+      return;
+    }
+    await runTx(
+      'Failed to change choice.',
+      async (contract) => {
+        const args = await fhe.encryptChoice(prediction.id, selectedOption);
+        await (await contract.changeChoice(...args)).wait();
+        return 'Encrypted choice updated.';
+      },
+      setIsSubmitting,
+    );
+  };
+
+  const handleIncreaseStake = async () => {
+    if (!address) {
+      alert('Connect a wallet to add stake.');
+      return;
+    }
+    if (!fhe) {
+      alert('Encryption service is not ready yet.');
+      return;
+    }
+    await runTx(
+      'Failed to add stake.',
+      async (contract) => {
+        const stakeValue = parseAmountInput(amountInput);
+        if (await exceedsCachedBalance(stakeValue)) {
+          return undefined;
+        }
+        const args = await fhe.encryptStake(prediction.id, stakeValue);
+        await (await contract.increaseStake(...args)).wait();
+        setAmountInput('');
+        return checkStakeResult(contract, 'Encrypted stake added to your current choice.', stakeValue);
+      },
+      setIsSubmitting,
+    );
+  };
+
+  const handleResolve = async () => {
+    if (selectedOption === null) {
+      alert('Select the winning option first.');
+      return;
+    }
+    await runTx('Failed to resolve prediction.', async (contract) => {
+      await (await contract.resolvePrediction(prediction.id, selectedOption)).wait();
+      return 'Prediction resolved.';
+    });
+  };
+
+  const handlePublishTotals = async () => {
+    if (!fhe) {
+      alert('Wait for the encryption service to finish loading.');
+      return;
+    }
+    await runTx('Failed to publish payout totals.', async (contract) => {
+      const winningHandle = prediction.encryptedStakes[prediction.winningOption];
+      const potHandle: `0x${string}` = await contract.getPayoutPot(prediction.id);
+      const { clearValues, decryptionProof } = await fhe.publicDecrypt([winningHandle, potHandle]);
+      await (
+        await contract.publishPayoutTotals(
+          prediction.id,
+          clearValues[winningHandle],
+          clearValues[potHandle],
+          decryptionProof,
+        )
+      ).wait();
+      return 'Payout totals published.';
+    });
+  };
+
+  const handleGrantTallyAccess = () =>
+    runTx('Failed to refresh tally access.', async (contract) => {
+      await (await contract.grantTallyAccess(prediction.id)).wait();
+      return 'Tally access refreshed. Decrypt the tallies to see the latest totals.';
+    });
+
+  const handleClaim = () =>
+    runTx('Failed to claim winnings.', async (contract) => {
+      await (await contract.claimWinnings(prediction.id)).wait();
+      return 'Claim settled. Decrypt your balance to see the payout.';
+    });
+
+  const handlePullResolution = () =>
+    runTx('The resolver has not decided an outcome yet.', async (contract) => {
+      await (await contract.pullResolution(prediction.id)).wait();
+      return 'Outcome pulled from the resolver.';
+    });
+
+  // PredictCoin moves nothing instead of reverting when the balance is too low, so a challenge only disputes the
+  // outcome once the publicly decryptable flag telling whether its bond moved is submitted
+  const confirmBond = async (
+    contract: Contract,
+    fheClient: FheClient,
+    isChallenger: boolean,
+  ): Promise<ContractErrorMessage> => {
+    const handle: `0x${string}` = await contract.getChallengeBondPosted(prediction.id);
+    const { clearValues, decryptionProof } = await fheClient.publicDecrypt([handle]);
+    const bondPosted = Boolean(clearValues[handle]);
+    await (await contract.confirmChallenge(prediction.id, bondPosted, decryptionProof)).wait();
+    if (bondPosted) {
+      return { message: 'Outcome challenged. The arbiter will settle the dispute.' };
+    }
+    return isChallenger
+      ? { message: 'The challenge was dropped: your balance is lower than the bond.', fix: 'claimFaucet' }
+      : { message: 'The challenge was dropped: its bond did not move.' };
+  };
+
+  const handleChallenge = async () => {
+    if (!fhe) {
+      alert('Wait for the encryption service to finish loading.');
+      return;
+    }
+    await runTx(
+      'Failed to challenge the outcome. Make sure the market is authorized to move your bond.',
+      async (contract) => {
+        await (await contract.challengeOutcome(prediction.id)).wait();
+        return confirmBond(contract, fhe, true);
+      },
+    );
+  };
+
+  const handleConfirmChallenge = async () => {
+    if (!fhe) {
+      alert('Wait for the encryption service to finish loading.');
+      return;
+    }
+    const isChallenger = Boolean(address && address.toLowerCase() === prediction.challenger?.toLowerCase());
+    await runTx('Failed to confirm the challenge.', (contract) => confirmBond(contract, fhe, isChallenger));
+  };
+
+  const handleFinalize = () =>
+    runTx('Failed to finalize the outcome.', async (contract) => {
+      await (await contract.finalizeOutcome(prediction.id)).wait();
+      return 'Outcome finalized.';
+    });
+
+  const handleSettleDispute = async () => {
+    if (selectedOption === null) {
+      alert('Select the winning option first.');
+      return;
+    }
+    await runTx('Failed to settle the dispute.', async (contract) => {
+      await (await contract.settleDispute(prediction.id, selectedOption)).wait();
+      return 'Dispute settled.';
+    });
+  };
+
+  const handleCancel = () =>
+    runTx('Failed to cancel prediction.', async (contract) => {
+      await (await contract.cancelPrediction(prediction.id)).wait();
+      return 'Prediction cancelled. Bettors can now claim refunds.';
+    });
+
+  const handleRefund = () =>
+    runTx('Failed to refund stake.', async (contract) => {
+      await (await contract.refund(prediction.id)).wait();
+      return 'Stake refunded.';
+    });
+
+  const handleReveal = async () => {
+    if (!fhe) {
+      alert('Wait for the encryption service to finish loading.');
+      return;
     }
+    await runTx('Failed to reveal tallies.', async (contract) => {
+      if (!prediction.revealRequested) {
+        await (await contract.requestTallyReveal(prediction.id)).wait();
+      }
+      const handles = [...prediction.encryptedCounts, ...prediction.encryptedStakes, prediction.totalEncryptedStake];
+      const { abiEncodedClearValues, decryptionProof } = await fhe.publicDecrypt(handles);
+      await (await contract.revealTallies(prediction.id, abiEncodedClearValues, decryptionProof)).wait();
+      return 'Final tallies revealed.';
+    });
   };
 
+  const handlePairs = useMemo(() => {
+    const pairs: HandleContractPair[] = includeTallies
+      ? [...prediction.encryptedCounts, ...prediction.encryptedStakes, prediction.totalEncryptedStake].map(
+          (handle) => ({ handle, contractAddress: contracts.zeroTrustPredict }),
+        )
+      : [];
+    if (hasPosition && userStakeHandle) {
+      pairs.push({ handle: userStakeHandle, contractAddress: contracts.zeroTrustPredict });
+    }
+    if (hasPosition && userChoiceHandle) {
+      pairs.push({ handle: userChoiceHandle, contractAddress: contracts.zeroTrustPredict });
+    }
+    return pairs;
+  }, [includeTallies, prediction, hasPosition, userStakeHandle, userChoiceHandle, contracts.zeroTrustPredict]);
+
+  const toDecryptionResult = useCallback(
+    (result: UserDecryptResults): DecryptionResult => ({
+      counts: includeTallies ? prediction.encryptedCounts.map((handle) => (result[handle] ?? 0n).toString()) : [],
+      stakes: includeTallies
+        ? prediction.encryptedStakes.map((handle) => formatTokenAmount(BigInt(result[handle] ?? 0)))
+        : [],
+      totalStake: includeTallies ? formatTokenAmount(BigInt(result[prediction.totalEncryptedStake] ?? 0)) : undefined,
+      userStake: hasPosition && userStakeHandle ? formatTokenAmount(BigInt(result[userStakeHandle] ?? 0)) : undefined,
+      userChoice: hasPosition && userChoiceHandle ? Number(result[userChoiceHandle] ?? 0) : undefined,
+    }),
+    [includeTallies, prediction, hasPosition, userStakeHandle, userChoiceHandle],
+  );
+
+  const onDecryptedRef = useRef(onDecrypted);
+  useEffect(() => {
+    onDecryptedRef.current = onDecrypted;
+  });
+
+  // Shows cached values without a click. When only some handles are cached the card was decrypted before and
+  // the state changed since, so the changed handles are fetched right away if a session is already open.
+  useEffect(() => {
+    if (!address || handlePairs.length === 0) {
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      const cached = await readCached(handlePairs);
+      const cachedCount = handlePairs.filter(({ handle }) => cached[handle as `0x${string}`] !== undefined).length;
+      if (cachedCount === 0) {
+        return;
+      }
+      if (cachedCount < handlePairs.length && !hasDecryptionSession) {
+        return;
+      }
+      const result = cachedCount === handlePairs.length ? cached : await userDecrypt(handlePairs);
+      if (!cancelled) {
+        setDecryptedData(toDecryptionResult(result));
+        onDecryptedRef.current?.();
+      }
+    })().catch((error) => console.error('Failed to load cached values:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [address, handlePairs, readCached, userDecrypt, hasDecryptionSession, toDecryptionResult]);
+
   const handleDecrypt = async () => {
-    if (!address || !zamaInstance || !signerPromise) {
+    if (!address || !fhe || !signerPromise) {
       alert('Connect wallet and wait for the encryption service to finish loading.');
       return;
     }
+    if (handlePairs.length === 0) {
+      setStatusMessage(`Tallies are ${VISIBILITY_LABELS[prediction.tallyVisibility]?.toLowerCase()}.`);
+      return;
+    }
     setIsDecrypting(true);
     setStatusMessage('');
     try {
-      const keypair = zamaInstance.generateKeypair();
-      const handlePairs = [
-        ...prediction.encryptedCounts.map((handle) => ({
-          handle,
-          contractAddress: ZERO_TRUST_PREDICT_ADDRESS,
-        })),
-        ...prediction.encryptedStakes.map((handle) => ({
-          handle,
-          contractAddress: ZERO_TRUST_PREDICT_ADDRESS,
-        })),
-        {
-          handle: prediction.totalEncryptedStake,
-          contractAddress: ZERO_TRUST_PREDICT_ADDRESS,
-        },
-      ];
-
-      if (userStakeHandle) {
-        handlePairs.push({ handle: userStakeHandle, contractAddress: ZERO_TRUST_PREDICT_ADDRESS });
-      }
-      if (userChoiceHandle) {
-        handlePairs.push({ handle: userChoiceHandle, contractAddress: ZERO_TRUST_PREDICT_ADDRESS });
-      }
-
-      const startTime = Math.floor(Date.now() / 1000).toString();
-      const durationDays = '10';
-      const eip712 = zamaInstance.createEIP712(
-        keypair.publicKey,
-        [ZERO_TRUST_PREDICT_ADDRESS],
-        startTime,
-        durationDays,
-      );
-
-      const signer = await signerPromise;
-      const signature = await signer.signTypedData(
-        eip712.domain,
-        {
-          UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-        },
-        eip712.message,
-      );
-
-      const result = await zamaInstance.userDecrypt(
-        handlePairs,
-        keypair.privateKey,
-        keypair.publicKey,
-        signature.replace('0x', ''),
-        [ZERO_TRUST_PREDICT_ADDRESS],
-        address,
-        startTime,
-        durationDays,
-      );
-
-      const counts = prediction.encryptedCounts.map((handle) => {
-        const raw = result[handle as string] ?? '0';
-        return raw.toString();
-      });
-      const stakes = prediction.encryptedStakes.map((handle) => {
-        const raw = result[handle as string] ?? '0';
-        return formatTokenAmount(raw);
-      });
-      const totalStakeValue = formatTokenAmount(result[prediction.totalEncryptedStake as string] ?? '0');
-
-      setDecryptedData({
-        counts,
-        stakes,
-        totalStake: totalStakeValue,
-        userStake: userStakeHandle ? formatTokenAmount(result[userStakeHandle as string] ?? '0') : undefined,
-        userChoice: userChoiceHandle ? Number(result[userChoiceHandle as string] ?? '0') : undefined,
-      });
+      const result = await userDecrypt(handlePairs);
+      setDecryptedData(toDecryptionResult(result));
+      onDecrypted?.();
     } catch (error) {
-      console.error(error);
-      setStatusMessage('Unable to decrypt values.');
+      reportError(error, 'Unable to decrypt values.');
     } finally {
       setIsDecrypting(false);
     }
@@ -190,14 +496,61 @@ export function PredictionCard({
     <article className="prediction-card">
       <header className="prediction-card__header">
         <div>
-          <h3>{prediction.title}</h3>
+          <h3>
+            {prediction.title}
+            {hasNewActivity ? <span className="activity-badge">New activity</span> : null}
+          </h3>
           <p>
             Created {createdAtText} • Creator {formatAddress(prediction.creator)}
+            {prediction.resolver ? ` • Resolver ${formatAddress(prediction.resolver)}` : ''}
+          </p>
+          <p className="prediction-card__schedule">
+            {isClosed
+              ? `Betting closed ${formatDateTime(prediction.closesAt)}`
+              : `Betting closes in ${formatCountdown(prediction.closesAt - now)}`}
+            {prediction.resolveBy ? ` • Resolve by ${formatDateTime(prediction.resolveBy)}` : ''}
+            {` • Tallies ${VISIBILITY_LABELS[prediction.tallyVisibility]?.toLowerCase()}`}
           </p>
+          {prediction.protocolFeeBps || prediction.creatorFeeBps ? (
+            <p className="prediction-card__schedule">
+              Fees on winning pots: {formatBps(prediction.protocolFeeBps)} protocol •{' '}
+              {formatBps(prediction.creatorFeeBps)} creator
+            </p>
+          ) : null}
+          {prediction.proposed ? (
+            <p className="prediction-card__schedule">
+              "{prediction.options[prediction.winningOption]}" proposed •{' '}
+              {challengePending
+                ? `Challenge by ${formatAddress(prediction.challenger ?? '')} awaiting bond confirmation`
+                : disputeWindowOpen
+                  ? `Challenge window closes in ${formatCountdown(prediction.disputeEndsAt - now)}`
+                  : 'Challenge window closed'}
+            </p>
+          ) : prediction.disputed ? (
+            <p className="prediction-card__schedule">
+              "{prediction.options[prediction.winningOption]}" disputed by {formatAddress(prediction.challenger ?? '')}{' '}
+              •{' '}
+              {arbitrationLapsed
+                ? 'The arbiter did not rule in time, anyone can cancel'
+                : `Awaiting arbiter until ${formatDateTime(prediction.disputeEndsAt)}`}
+            </p>
+          ) : null}
         </div>
-        <span className={`status-chip ${prediction.active ? 'active' : 'paused'}`}>
-          {prediction.active ? 'Active' : 'Paused'}
-        </span>
+        {prediction.cancelled ? (
+          <span className="status-chip cancelled">Cancelled</span>
+        ) : prediction.resolved ? (
+          <span className="status-chip resolved">Resolved</span>
+        ) : prediction.disputed ? (
+          <span className="status-chip disputed">Disputed</span>
+        ) : prediction.proposed ? (
+          <span className="status-chip proposed">Proposed</span>
+        ) : isClosed ? (
+          <span className="status-chip closed">Closed</span>
+        ) : (
+          <span className={`status-chip ${prediction.active ? 'active' : 'paused'}`}>
+            {prediction.active ? 'Active' : 'Paused'}
+          </span>
+        )}
       </header>
 
       <div className="prediction-card__content">
@@ -211,8 +564,19 @@ export function PredictionCard({
                 onChange={() => handleSelection(index)}
               />
               <div>
-                <span className="option-label">{option}</span>
-                {decryptedData ? (
+                <span className="option-label">
+                  {option}
+                  {prediction.resolved && prediction.winningOption === index ? ' • Winner' : ''}
+                  {(prediction.proposed || prediction.disputed) && prediction.winningOption === index
+                    ? ' • Proposed'
+                    : ''}
+                </span>
+                {revealed ? (
+                  <span className="option-sub">
+                    {revealed.counts[index]?.toString()} selection(s) • {formatTokenAmount(revealed.stakes[index] ?? 0n)}{' '}
+                    PCoin
+                  </span>
+                ) : decryptedData?.counts.length ? (
                   <span className="option-sub">
                     {decryptedData.counts[index]} selection(s) • {decryptedData.stakes[index]} PCoin
                   </span>
@@ -234,25 +598,127 @@ export function PredictionCard({
               placeholder="e.g. 2.5"
             />
           </label>
-          <button className="primary-button" onClick={handlePlaceSelection} disabled={isSubmitting || zamaLoading}>
-            {isSubmitting ? 'Submitting...' : 'Stake & Encrypt'}
-          </button>
+          {hasPosition ? (
+            <>
+              <button
+                className="primary-button"
+                onClick={handleIncreaseStake}
+                disabled={isSubmitting || zamaLoading || isSettled || isClosed || Boolean(stakeBlockedReason)}
+              >
+                {isSubmitting ? 'Submitting...' : 'Top up stake'}
+              </button>
+              <button
+                className="ghost-button"
+                onClick={handleChangeChoice}
+                disabled={isSubmitting || zamaLoading || isSettled || isClosed}
+              >
+                Move stake to selected option
+              </button>
+            </>
+          ) : (
+            <button
+              className="primary-button"
+              onClick={handlePlaceSelection}
+              disabled={isSubmitting || zamaLoading || isSettled || isClosed || Boolean(stakeBlockedReason)}
+            >
+              {isSubmitting ? 'Submitting...' : 'Stake & Encrypt'}
+            </button>
+          )}
+          {stakeBlockedReason && !isSettled && !isClosed ? <p className="stake-hint">{stakeBlockedReason}</p> : null}
+          {canResolve && !isSettled ? (
+            <button className="ghost-button" onClick={handleResolve} disabled={isSettling}>
+              Resolve with selected option
+            </button>
+          ) : null}
+          {prediction.resolver && !isSettled ? (
+            <button className="ghost-button" onClick={handlePullResolution} disabled={isSettling}>
+              Pull outcome from resolver
+            </button>
+          ) : null}
+          {canCancel ? (
+            <button className="ghost-button" onClick={handleCancel} disabled={isSettling}>
+              Cancel prediction
+            </button>
+          ) : null}
+          {disputeWindowOpen && !challengePending && address ? (
+            <button className="ghost-button" onClick={handleChallenge} disabled={isSettling || zamaLoading}>
+              Challenge outcome
+            </button>
+          ) : null}
+          {challengePending ? (
+            <button className="ghost-button" onClick={handleConfirmChallenge} disabled={isSettling || zamaLoading}>
+              Confirm challenge bond
+            </button>
+          ) : null}
+          {prediction.proposed && !disputeWindowOpen && !challengePending ? (
+            <button className="ghost-button" onClick={handleFinalize} disabled={isSettling}>
+              Finalize outcome
+            </button>
+          ) : null}
+          {prediction.disputed && isArbiter ? (
+            <button className="ghost-button" onClick={handleSettleDispute} disabled={isSettling}>
+              Settle dispute with selected option
+            </button>
+          ) : null}
+          {prediction.resolved && !prediction.payoutsPublished ? (
+            <button className="ghost-button" onClick={handlePublishTotals} disabled={isSettling || zamaLoading}>
+              Publish payout totals
+            </button>
+          ) : null}
+          {canClaim ? (
+            <button className="primary-button" onClick={handleClaim} disabled={isSettling}>
+              {isSettling ? 'Claiming...' : 'Claim'}
+            </button>
+          ) : null}
+          {canRefund ? (
+            <button className="primary-button" onClick={handleRefund} disabled={isSettling}>
+              {isSettling ? 'Refunding...' : 'Refund stake'}
+            </button>
+          ) : null}
+          {canReveal ? (
+            <button className="ghost-button" onClick={handleReveal} disabled={isSettling || zamaLoading}>
+              {prediction.revealRequested ? 'Publish final tallies' : 'Reveal final tallies'}
+            </button>
+          ) : null}
+          {canPullTallyAccess ? (
+            <button className="ghost-button" onClick={handleGrantTallyAccess} disabled={isSettling}>
+              Refresh tally access
+            </button>
+          ) : null}
           <button className="ghost-button" onClick={handleDecrypt} disabled={isDecrypting || zamaLoading}>
-            {isDecrypting ? 'Decrypting...' : 'Decrypt tallies'}
+            {isDecrypting ? 'Decrypting...' : includeTallies ? 'Decrypt tallies' : 'Decrypt my position'}
           </button>
-          <button className="ghost-button" onClick={onActionComplete} disabled={isLoadingRead}>
-            Refresh data
-          </button>
-          {statusMessage ? <p className="status-line">{statusMessage}</p> : null}
+          {status.message ? <p className="status-line">{status.message}</p> : null}
+          {status.fix ? (
+            <ErrorFixButton
+              fix={status.fix}
+              signerPromise={signerPromise}
+              onResult={(next) => {
+                setStatus(next);
+                onActionComplete();
+              }}
+            />
+          ) : null}
         </div>
       </div>
 
-      {decryptedData ? (
+      {revealed && !decryptedData ? (
         <div className="decrypted-panel">
           <div>
             <h4>Total staked</h4>
-            <p>{decryptedData.totalStake} PCoin</p>
+            <p>{formatTokenAmount(revealed.totalStake)} PCoin</p>
           </div>
+        </div>
+      ) : null}
+
+      {decryptedData ? (
+        <div className="decrypted-panel">
+          {revealed || decryptedData.totalStake ? (
+            <div>
+              <h4>Total staked</h4>
+              <p>{revealed ? formatTokenAmount(revealed.totalStake) : decryptedData.totalStake} PCoin</p>
+            </div>
+          ) : null}
           {decryptedData.userStake ? (
             <div>
               <h4>Your stake</h4>
@@ -1,27 +1,85 @@
-import { useState } from 'react';
-import { Contract, type JsonRpcSigner } from 'ethers';
+import { useEffect, useRef, useState } from 'react';
+import type { JsonRpcSigner } from 'ethers';
+import { useReadContract } from 'wagmi';
 
-import {
-  PREDICT_COIN_ABI,
-  PREDICT_COIN_ADDRESS,
-  ZERO_TRUST_PREDICT_ADDRESS,
-} from '../config/contracts';
-import { formatAddress, formatTokenAmount } from '../utils/format';
+import { PREDICT_COIN_ABI } from '../config/contracts';
+import { useChainConfig } from '../hooks/useChainConfig';
+import { useDecryptionSession } from '../hooks/useDecryptionSession';
+import type { OperatorStatus } from '../hooks/useOperatorStatus';
+import { describeContractError, type ContractErrorMessage } from '../utils/contractErrors';
+import { formatAddress, formatCountdown, formatDateTime, formatTokenAmount } from '../utils/format';
+import { authorizeMarket, claimFaucet } from '../utils/predictCoin';
+import { ErrorFixButton } from './ErrorFixButton';
 import '../styles/TokenPanel.css';
 
 interface Props {
   address?: `0x${string}`;
   balanceHandle?: `0x${string}`;
-  instance: any;
   signerPromise?: Promise<JsonRpcSigner>;
   zamaLoading: boolean;
+  operator: OperatorStatus;
   onRefetch: () => void;
 }
 
-export function TokenPanel({ address, balanceHandle, instance, signerPromise, zamaLoading, onRefetch }: Props) {
-  const [status, setStatus] = useState('');
+export function TokenPanel({ address, balanceHandle, signerPromise, zamaLoading, operator, onRefetch }: Props) {
+  const [status, setStatus] = useState<ContractErrorMessage>({ message: '' });
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [balance, setBalance] = useState<string | null>(null);
+  const { expiresAt, readCached, userDecrypt } = useDecryptionSession();
+  const { contracts } = useChainConfig();
+  const hasDecryptionSession = expiresAt !== undefined;
+  const decryptedForRef = useRef<string | undefined>(undefined);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Math.floor(Date.now() / 1000)), 60_000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const { data: faucetStatus, refetch: refetchFaucetStatus } = useReadContract({
+    address: contracts.predictCoin,
+    abi: PREDICT_COIN_ABI,
+    functionName: 'faucetStatus',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: Boolean(address),
+    },
+  });
+  const [faucetEnabled, faucetAmount, nextClaimAt, faucetRemainingToday] = faucetStatus ?? [];
+  const faucetWaitSeconds = nextClaimAt ? Number(nextClaimAt) - now : 0;
+  const faucetCapReached =
+    faucetAmount !== undefined && faucetRemainingToday !== undefined && faucetRemainingToday < faucetAmount;
+  const faucetBlocked = faucetEnabled === false || faucetWaitSeconds > 0 || faucetCapReached;
+
+  // Every transfer produces a new balance handle: reuse the cached value when there is one, and decrypt the
+  // new handle right away only if the user already revealed their balance and a session is open
+  useEffect(() => {
+    if (!address || !balanceHandle) {
+      setBalance(null);
+      return;
+    }
+    const pair = { handle: balanceHandle, contractAddress: contracts.predictCoin };
+    let cancelled = false;
+    (async () => {
+      const cached = await readCached([pair]);
+      let clear = cached[balanceHandle];
+      if (clear === undefined && decryptedForRef.current === address && hasDecryptionSession) {
+        clear = (await userDecrypt([pair]))[balanceHandle];
+      }
+      if (cancelled) {
+        return;
+      }
+      if (clear === undefined) {
+        setBalance(null);
+        return;
+      }
+      decryptedForRef.current = address;
+      setBalance(`${formatTokenAmount(BigInt(clear))} PCoin`);
+    })().catch((error) => console.error('Failed to load cached balance:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [address, balanceHandle, readCached, userDecrypt, hasDecryptionSession, contracts.predictCoin]);
 
   const ensureSigner = async () => {
     if (!signerPromise) {
@@ -32,73 +90,49 @@ export function TokenPanel({ address, balanceHandle, instance, signerPromise, za
 
   const handleFaucet = async () => {
     try {
-      setStatus('Requesting faucet...');
-      const signer = await ensureSigner();
-      const contract = new Contract(PREDICT_COIN_ADDRESS, PREDICT_COIN_ABI, signer);
-      const tx = await contract.faucet();
-      await tx.wait();
-      setStatus('Faucet tokens received.');
+      setStatus({ message: 'Requesting faucet...' });
+      await claimFaucet(await ensureSigner(), contracts);
+      setStatus({ message: 'Faucet tokens received.' });
       onRefetch();
     } catch (error) {
       console.error(error);
-      setStatus('Unable to use faucet.');
+      setStatus(describeContractError(error, 'Unable to use faucet.'));
+    } finally {
+      void refetchFaucetStatus();
     }
   };
 
   const handleAuthorize = async () => {
     try {
-      setStatus('Authorizing ZeroTrustPredict...');
-      const signer = await ensureSigner();
-      const contract = new Contract(PREDICT_COIN_ADDRESS, PREDICT_COIN_ABI, signer);
-      const expiresAt = Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60;
-      const tx = await contract.setOperator(ZERO_TRUST_PREDICT_ADDRESS, expiresAt);
-      await tx.wait();
-      setStatus('Operator configured.');
+      setStatus({ message: 'Authorizing ZeroTrustPredict...' });
+      await authorizeMarket(await ensureSigner(), contracts);
+      setStatus({ message: 'Operator configured.' });
+      operator.refetch();
     } catch (error) {
       console.error(error);
-      setStatus('Failed to set operator.');
+      setStatus(describeContractError(error, 'Failed to set operator.'));
     }
   };
 
   const handleDecryptBalance = async () => {
-    if (!instance || !address || !balanceHandle) {
+    if (!address || !balanceHandle) {
       alert('Balance is currently unavailable.');
       return;
     }
     setIsDecrypting(true);
     try {
-      const keypair = instance.generateKeypair();
-      const startTime = Math.floor(Date.now() / 1000).toString();
-      const durationDays = '10';
-      const eip712 = instance.createEIP712(keypair.publicKey, [PREDICT_COIN_ADDRESS], startTime, durationDays);
-      const signer = await ensureSigner();
-      const signature = await signer.signTypedData(
-        eip712.domain,
+      const result = await userDecrypt([
         {
-          UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+          handle: balanceHandle,
+          contractAddress: contracts.predictCoin,
         },
-        eip712.message,
-      );
-      const result = await instance.userDecrypt(
-        [
-          {
-            handle: balanceHandle,
-            contractAddress: PREDICT_COIN_ADDRESS,
-          },
-        ],
-        keypair.privateKey,
-        keypair.publicKey,
-        signature.replace('0x', ''),
-        [PREDICT_COIN_ADDRESS],
-        address,
-        startTime,
-        durationDays,
-      );
-      const clear = result[balanceHandle as string] ?? '0';
-      setBalance(`${formatTokenAmount(clear)} PCoin`);
+      ]);
+      const clear = result[balanceHandle] ?? 0;
+      decryptedForRef.current = address;
+      setBalance(`${formatTokenAmount(BigInt(clear))} PCoin`);
     } catch (error) {
       console.error(error);
-      setStatus('Unable to decrypt balance.');
+      setStatus(describeContractError(error, 'Unable to decrypt balance.'));
     } finally {
       setIsDecrypting(false);
     }
@@ -119,22 +153,66 @@ export function TokenPanel({ address, balanceHandle, instance, signerPromise, za
           <p>Balance</p>
           <strong>{balance ?? 'Encrypted'}</strong>
         </div>
+        {address && faucetStatus ? (
+          <div>
+            <p>Faucet</p>
+            <strong>
+              {faucetEnabled === false
+                ? 'Disabled'
+                : faucetWaitSeconds > 0
+                  ? `Next claim in ${formatCountdown(faucetWaitSeconds)}`
+                  : faucetCapReached
+                    ? 'Daily cap reached'
+                    : `${formatTokenAmount(faucetAmount ?? 0n)} PCoin available`}
+            </strong>
+          </div>
+        ) : null}
+        {address ? (
+          <div>
+            <p>Market access</p>
+            <strong>
+              {operator.isAuthorized
+                ? operator.expiresAt
+                  ? `Authorized until ${formatDateTime(operator.expiresAt)}`
+                  : 'Authorized'
+                : 'Not authorized'}
+            </strong>
+          </div>
+        ) : null}
       </div>
+      {operator.expiresSoon && operator.expiresAt ? (
+        <p className="token-warning">
+          Market authorization lapses in {formatCountdown(operator.expiresAt - Math.floor(Date.now() / 1000))}, renew
+          it to keep staking.
+        </p>
+      ) : null}
       <div className="token-buttons">
-        <button className="ghost-button" onClick={handleFaucet} disabled={!signerPromise}>
+        <button
+          className="ghost-button"
+          onClick={handleFaucet}
+          disabled={!signerPromise || faucetBlocked}
+          title={nextClaimAt && faucetWaitSeconds > 0 ? `Available ${formatDateTime(Number(nextClaimAt))}` : undefined}
+        >
           Claim faucet
         </button>
         <button className="ghost-button" onClick={handleAuthorize} disabled={!signerPromise}>
-          Authorize market
+          {operator.isAuthorized ? 'Renew authorization' : 'Authorize market'}
         </button>
         <button className="primary-button" onClick={handleDecryptBalance} disabled={isDecrypting || zamaLoading}>
           {isDecrypting ? 'Decrypting...' : 'Decrypt balance'}
         </button>
-        <button className="ghost-button" onClick={onRefetch}>
-          Refresh
-        </button>
       </div>
-      {status ? <p className="status-line">{status}</p> : null}
+      {status.message ? <p className="status-line">{status.message}</p> : null}
+      {status.fix ? (
+        <ErrorFixButton
+          fix={status.fix}
+          signerPromise={signerPromise}
+          onResult={(next) => {
+            setStatus(next);
+            onRefetch();
+          }}
+        />
+      ) : null}
     </section>
   );
 }
@@ -0,0 +1,26 @@
+import '../styles/Header.css';
+import '../styles/PredictionApp.css';
+
+// Shown instead of the markets when the build's contracts.ts holds no deployment on a chain it may offer
+export function UnsupportedNetwork() {
+  return (
+    <div className="prediction-app">
+      <header className="header">
+        <div className="header-container">
+          <div className="header-content">
+            <div>
+              <h1 className="header-title">ZeroTrustPredict</h1>
+              <p className="header-subtitle">Confidential markets powered by Zama FHE and PredictCoin</p>
+            </div>
+          </div>
+        </div>
+      </header>
+      <main className="prediction-body">
+        <div className="empty-state">
+          <h3>Unsupported network</h3>
+          <p>ZeroTrustPredict is not deployed on any network this build supports yet. Check back once it is live.</p>
+        </div>
+      </main>
+    </div>
+  );
+}
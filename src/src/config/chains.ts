@@ -0,0 +1,70 @@
+import type { Chain } from 'viem';
+import { hardhat, sepolia } from 'wagmi/chains';
+import { SepoliaConfig, type FhevmInstanceConfig } from '@zama-fhe/relayer-sdk/bundle';
+
+import { CONTRACT_ADDRESSES, DEPLOYMENT_BLOCKS } from './contracts';
+
+export type FheConfig =
+  // Zama relayer and KMS, on chains running the FHEVM coprocessor
+  | { mode: 'relayer'; config: FhevmInstanceConfig }
+  // `npx hardhat node` answers the relayer methods itself through the FHEVM mock engine
+  | { mode: 'mock'; rpcUrl: string };
+
+export type ChainContracts = {
+  zeroTrustPredict: `0x${string}`;
+  predictCoin: `0x${string}`;
+  lens: `0x${string}`;
+};
+
+export type ChainConfig = {
+  chain: Chain;
+  contracts: ChainContracts;
+  // First block holding any of the contracts, so log scans never start from genesis
+  deploymentBlock: bigint;
+  fhe: FheConfig;
+};
+
+type DeployedAddresses = Readonly<Record<'ZeroTrustPredict' | 'PredictCoin' | 'ZeroTrustPredictLens', `0x${string}`>>;
+
+const DEPLOYED: Partial<Record<number, DeployedAddresses>> = CONTRACT_ADDRESSES;
+
+const DEPLOYED_AT: Partial<Record<number, number>> = DEPLOYMENT_BLOCKS;
+
+const KNOWN_CHAINS: { chain: Chain; fhe: FheConfig; devOnly?: boolean }[] = [
+  { chain: sepolia, fhe: { mode: 'relayer', config: SepoliaConfig } },
+  { chain: hardhat, fhe: { mode: 'mock', rpcUrl: hardhat.rpcUrls.default.http[0] }, devOnly: true },
+];
+
+/**
+ * Chains the app can run on: every known chain with a deployment in the generated contracts.ts. The local
+ * Hardhat node is only offered by the dev server, never by production builds.
+ */
+export const SUPPORTED_CHAINS: ChainConfig[] = KNOWN_CHAINS.flatMap(({ chain, fhe, devOnly }) => {
+  const deployed = DEPLOYED[chain.id];
+  if (!deployed || (devOnly && !import.meta.env.DEV)) {
+    return [];
+  }
+  return [
+    {
+      chain,
+      fhe,
+      contracts: {
+        zeroTrustPredict: deployed.ZeroTrustPredict,
+        predictCoin: deployed.PredictCoin,
+        lens: deployed.ZeroTrustPredictLens,
+      },
+      deploymentBlock: BigInt(DEPLOYED_AT[chain.id] ?? 0),
+    },
+  ];
+});
+
+/**
+ * Chains the wallet connection is configured with. wagmi needs at least one, so a build without any deployment
+ * still offers the public chains while the app shows its unsupported-network notice.
+ */
+export const WALLET_CHAINS = (
+  SUPPORTED_CHAINS.length > 0 ? SUPPORTED_CHAINS : KNOWN_CHAINS.filter(({ devOnly }) => !devOnly)
+).map(({ chain }) => chain) as [Chain, ...Chain[]];
+
+export const getChainConfig = (chainId: number | undefined) =>
+  SUPPORTED_CHAINS.find(({ chain }) => chain.id === chainId);
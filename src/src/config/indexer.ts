@@ -0,0 +1,2 @@
+// Base URL of the optional indexer API (`npx hardhat task:indexer`). When unset, the app reads the chain directly.
+export const INDEXER_URL = import.meta.env.VITE_INDEXER_URL?.replace(/\/$/, '') || undefined;
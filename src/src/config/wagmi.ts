@@ -1,9 +1,10 @@
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
-import { sepolia } from 'wagmi/chains';
+
+import { WALLET_CHAINS } from './chains';
 
 export const config = getDefaultConfig({
   appName: 'ZeroTrustPredict',
   projectId: 'zero-trust-predict',
-  chains: [sepolia],
+  chains: WALLET_CHAINS,
   ssr: false,
 });
@@ -0,0 +1,20 @@
+import { useAccount, useChainId } from 'wagmi';
+
+import { SUPPORTED_CHAINS, getChainConfig } from '../config/chains';
+
+/**
+ * Resolves the chain the app reads from and writes to. wagmi only follows the wallet onto configured chains,
+ * so when the wallet sits on another network the app keeps the last supported one and flags the mismatch.
+ */
+export function useChainConfig() {
+  const chainId = useChainId();
+  const { chainId: walletChainId, isConnected } = useAccount();
+  const chainConfig = getChainConfig(chainId) ?? SUPPORTED_CHAINS[0];
+
+  return {
+    chainConfig,
+    contracts: chainConfig.contracts,
+    walletChainId,
+    isUnsupportedChain: isConnected && getChainConfig(walletChainId) === undefined,
+  };
+}
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import type { HandleContractPair, UserDecryptResults } from '@zama-fhe/relayer-sdk/bundle';
+
+export type DecryptionSessionValue = {
+  expiresAt?: number;
+  isSigning: boolean;
+  // Returns only the handles already decrypted for this account and chain, without prompting
+  readCached: (handles: HandleContractPair[]) => Promise<UserDecryptResults>;
+  userDecrypt: (handles: HandleContractPair[]) => Promise<UserDecryptResults>;
+  revoke: () => void;
+};
+
+export const DecryptionSessionContext = createContext<DecryptionSessionValue | null>(null);
+
+export function useDecryptionSession(): DecryptionSessionValue {
+  const context = useContext(DecryptionSessionContext);
+  if (!context) {
+    throw new Error('useDecryptionSession must be used within a DecryptionSessionProvider');
+  }
+  return context;
+}
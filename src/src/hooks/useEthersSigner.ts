@@ -1,8 +1,9 @@
 import { useMemo } from 'react';
 import { useWalletClient } from 'wagmi';
 import { BrowserProvider, JsonRpcSigner } from 'ethers';
+import type { Account, Chain, Client, Transport } from 'viem';
 
-function walletClientToSigner(walletClient: any): Promise<JsonRpcSigner> {
+function walletClientToSigner(walletClient: Client<Transport, Chain, Account>): Promise<JsonRpcSigner> {
   const { account, chain, transport } = walletClient;
   const network = {
     chainId: chain.id,
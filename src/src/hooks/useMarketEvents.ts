@@ -0,0 +1,77 @@
+import { useEffect, useRef } from 'react';
+import { useWatchContractEvent } from 'wagmi';
+
+import { PREDICT_COIN_ABI, ZERO_TRUST_PREDICT_ABI } from '../config/contracts';
+import { useChainConfig } from './useChainConfig';
+
+export type MarketEventHandlers = {
+  onPredictionCreated?: (predictionId: number, creator: `0x${string}`) => void;
+  onPredictionChanged?: (predictionId: number) => void;
+  onPositionChanged?: (predictionId: number, bettor: `0x${string}`) => void;
+  onTalliesRevealed?: (predictionId: number) => void;
+  onBalanceChanged?: () => void;
+};
+
+// Private per-bettor results that only accompany a selection or top-up already reported by its own event
+const SKIPPED_EVENTS = new Set(['StakeTransferResult']);
+
+const sameAddress = (left?: string, right?: string) =>
+  Boolean(left && right && left.toLowerCase() === right.toLowerCase());
+
+/**
+ * Subscribes to the market events that change what the UI shows, so that callers can refetch only the
+ * predictions and user data a log touched. Every market event carrying a prediction id is watched through a
+ * single subscription. Handlers are read through a ref and never re-subscribe.
+ */
+export function useMarketEvents(account: `0x${string}` | undefined, handlers: MarketEventHandlers) {
+  const handlersRef = useRef(handlers);
+  const { contracts } = useChainConfig();
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useWatchContractEvent({
+    address: contracts.zeroTrustPredict,
+    abi: ZERO_TRUST_PREDICT_ABI,
+    onLogs: (logs) => {
+      for (const { eventName, args } of logs) {
+        if (
+          !eventName ||
+          SKIPPED_EVENTS.has(eventName) ||
+          !('predictionId' in args) ||
+          args.predictionId === undefined
+        ) {
+          continue;
+        }
+        const predictionId = Number(args.predictionId);
+        if (eventName === 'PredictionCreated') {
+          if ('creator' in args && args.creator) {
+            handlersRef.current.onPredictionCreated?.(predictionId, args.creator);
+          }
+          continue;
+        }
+        handlersRef.current.onPredictionChanged?.(predictionId);
+        if ('bettor' in args && args.bettor) {
+          handlersRef.current.onPositionChanged?.(predictionId, args.bettor);
+        }
+        if (eventName === 'TalliesRevealed') {
+          handlersRef.current.onTalliesRevealed?.(predictionId);
+        }
+      }
+    },
+  });
+
+  // Stakes, claims, refunds and faucet mints all move PredictCoin, so the balance follows every transfer
+  // that involves the account
+  useWatchContractEvent({
+    address: contracts.predictCoin,
+    abi: PREDICT_COIN_ABI,
+    eventName: 'ConfidentialTransfer',
+    enabled: Boolean(account),
+    onLogs: (logs) => {
+      if (logs.some(({ args }) => sameAddress(args.from, account) || sameAddress(args.to, account))) {
+        handlersRef.current.onBalanceChanged?.();
+      }
+    },
+  });
+}
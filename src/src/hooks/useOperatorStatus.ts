@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient, useReadContract, useWatchContractEvent } from 'wagmi';
+
+import { PREDICT_COIN_ABI } from '../config/contracts';
+import { useChainConfig } from './useChainConfig';
+
+// Authorizations closer than this to their expiry are flagged for renewal
+const RENEWAL_WARNING_SECONDS = 3 * 24 * 60 * 60;
+
+export type OperatorStatus = {
+  isAuthorized: boolean;
+  /** Unix time the authorization lapses at, `undefined` when it is unknown or never set */
+  expiresAt?: number;
+  expiresSoon: boolean;
+  isLoading: boolean;
+  refetch: () => void;
+};
+
+/**
+ * Tracks whether ZeroTrustPredict may move the holder's PredictCoin. PredictCoin only exposes `isOperator`,
+ * so the expiry is taken from the holder's latest `OperatorSet` log for the market, scanned from the block the
+ * contracts were deployed at. When the RPC refuses the scan the expiry stays unknown and `isOperator` alone decides.
+ */
+export function useOperatorStatus(holder: `0x${string}` | undefined): OperatorStatus {
+  const { chainConfig, contracts } = useChainConfig();
+  const publicClient = usePublicClient();
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Math.floor(Date.now() / 1000)), 60_000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const {
+    data: isOperator,
+    isLoading,
+    refetch: refetchIsOperator,
+  } = useReadContract({
+    address: contracts.predictCoin,
+    abi: PREDICT_COIN_ABI,
+    functionName: 'isOperator',
+    args: holder ? [holder, contracts.zeroTrustPredict] : undefined,
+    query: {
+      enabled: Boolean(holder),
+    },
+  });
+
+  const { data: expiresAt, refetch: refetchExpiry } = useQuery({
+    queryKey: [
+      'operatorExpiry',
+      publicClient?.chain.id,
+      contracts.predictCoin,
+      contracts.zeroTrustPredict,
+      chainConfig.deploymentBlock.toString(),
+      holder,
+    ],
+    enabled: Boolean(publicClient && holder),
+    queryFn: async () => {
+      if (!publicClient) {
+        throw new Error('Public client not available');
+      }
+      const logs = await publicClient.getContractEvents({
+        address: contracts.predictCoin,
+        abi: PREDICT_COIN_ABI,
+        eventName: 'OperatorSet',
+        args: { holder, operator: contracts.zeroTrustPredict },
+        fromBlock: chainConfig.deploymentBlock,
+      });
+      const until = logs.at(-1)?.args.until;
+      return until === undefined ? null : Number(until);
+    },
+  });
+
+  const refetch = () => {
+    void refetchIsOperator();
+    void refetchExpiry();
+  };
+
+  useWatchContractEvent({
+    address: contracts.predictCoin,
+    abi: PREDICT_COIN_ABI,
+    eventName: 'OperatorSet',
+    args: { holder },
+    enabled: Boolean(holder),
+    onLogs: refetch,
+  });
+
+  const expiry = expiresAt ?? undefined;
+  const isAuthorized = Boolean(isOperator) && (expiry === undefined || expiry > now);
+
+  return {
+    isAuthorized,
+    expiresAt: expiry,
+    expiresSoon: isAuthorized && expiry !== undefined && expiry - now < RENEWAL_WARNING_SECONDS,
+    isLoading,
+    refetch,
+  };
+}
@@ -0,0 +1,245 @@
+import { useCallback, useMemo } from 'react';
+import { useInfiniteQuery, useQueryClient, type InfiniteData } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+import { zeroAddress } from 'viem';
+
+import { ZERO_TRUST_PREDICT_ABI, ZERO_TRUST_PREDICT_LENS_ABI } from '../config/contracts';
+import { useChainConfig } from './useChainConfig';
+import { INDEXER_URL } from '../config/indexer';
+import type { PredictionChainData } from '../components/PredictionApp';
+
+export type PredictionFilter = 'all' | 'active' | 'mine';
+
+export const PREDICTION_PAGE_SIZE = 10;
+
+export type PredictionSummary = {
+  id: bigint;
+  title: string;
+  creator: `0x${string}`;
+  active: boolean;
+  createdAt: bigint;
+  closesAt: bigint;
+  resolveBy: bigint;
+  tallyVisibility: number;
+  optionLabels: readonly string[];
+  encryptedSelections: readonly `0x${string}`[];
+  encryptedStakes: readonly `0x${string}`[];
+  totalEncryptedStake: `0x${string}`;
+  state: number;
+  winningOption: number;
+  payoutsPublished: boolean;
+  winningStake: bigint;
+  payoutPot: bigint;
+  resolver: `0x${string}`;
+  disputeEndsAt: bigint;
+  challenger: `0x${string}`;
+  protocolFeeBps: number;
+  creatorFeeBps: number;
+  revealRequested: boolean;
+};
+
+// The indexer serves lens summaries as JSON, with wide integers as decimal strings
+type IndexedSummary = Omit<
+  PredictionSummary,
+  'id' | 'createdAt' | 'closesAt' | 'resolveBy' | 'winningStake' | 'payoutPot' | 'disputeEndsAt'
+> & {
+  id: string;
+  createdAt: string;
+  closesAt: string;
+  resolveBy: string;
+  winningStake: string;
+  payoutPot: string;
+  disputeEndsAt: string;
+};
+
+const fromIndexedSummary = (summary: IndexedSummary): PredictionSummary => ({
+  ...summary,
+  id: BigInt(summary.id),
+  createdAt: BigInt(summary.createdAt),
+  closesAt: BigInt(summary.closesAt),
+  resolveBy: BigInt(summary.resolveBy),
+  winningStake: BigInt(summary.winningStake),
+  payoutPot: BigInt(summary.payoutPot),
+  disputeEndsAt: BigInt(summary.disputeEndsAt),
+});
+
+async function fetchIndexedPage(
+  filter: PredictionFilter,
+  account: `0x${string}` | undefined,
+  offset: number,
+): Promise<PredictionPage> {
+  const params = new URLSearchParams({ filter, offset: String(offset), limit: String(PREDICTION_PAGE_SIZE) });
+  if (filter === 'mine' && account) {
+    params.set('creator', account);
+  }
+  const response = await fetch(`${INDEXER_URL}/predictions?${params}`);
+  if (!response.ok) {
+    throw new Error(`Indexer responded with ${response.status}`);
+  }
+  const page = (await response.json()) as { predictions: IndexedSummary[]; total: number; nextOffset: number | null };
+  return {
+    summaries: page.predictions.map(fromIndexedSummary),
+    total: page.total,
+    nextOffset: page.nextOffset ?? undefined,
+  };
+}
+
+type PredictionPage = {
+  summaries: readonly PredictionSummary[];
+  total?: number;
+  nextOffset?: number;
+};
+
+export const toChainData = (summary: PredictionSummary): PredictionChainData => ({
+  id: Number(summary.id),
+  title: summary.title,
+  creator: summary.creator,
+  active: summary.active,
+  createdAt: Number(summary.createdAt),
+  closesAt: Number(summary.closesAt),
+  resolveBy: Number(summary.resolveBy),
+  tallyVisibility: summary.tallyVisibility,
+  options: [...summary.optionLabels],
+  encryptedCounts: [...summary.encryptedSelections],
+  encryptedStakes: [...summary.encryptedStakes],
+  totalEncryptedStake: summary.totalEncryptedStake,
+  proposed: summary.state === 1,
+  disputed: summary.state === 2,
+  resolved: summary.state === 3,
+  cancelled: summary.state === 4,
+  winningOption: summary.winningOption,
+  payoutsPublished: summary.payoutsPublished,
+  winningStake: summary.winningStake,
+  payoutPot: summary.payoutPot,
+  resolver: summary.resolver !== zeroAddress ? summary.resolver : undefined,
+  disputeEndsAt: Number(summary.disputeEndsAt),
+  challenger: summary.challenger !== zeroAddress ? summary.challenger : undefined,
+  protocolFeeBps: summary.protocolFeeBps,
+  creatorFeeBps: summary.creatorFeeBps,
+  revealRequested: summary.revealRequested,
+});
+
+/**
+ * Loads predictions page by page through the lens contract's paginated views, so that only the markets the
+ * user scrolled to are fetched. When an indexer is configured the pages come from its API instead, which
+ * returns the same summaries. Revealed tallies and per-user handles are left to the caller.
+ */
+export function usePredictionFeed(filter: PredictionFilter, account?: `0x${string}`) {
+  const publicClient = usePublicClient();
+  const queryClient = useQueryClient();
+  const { contracts } = useChainConfig();
+
+  const query = useInfiniteQuery({
+    queryKey: ['predictionFeed', publicClient?.chain.id, contracts.zeroTrustPredict, INDEXER_URL, filter, account],
+    enabled: (Boolean(INDEXER_URL) || Boolean(publicClient)) && (filter !== 'mine' || Boolean(account)),
+    initialPageParam: 0,
+    queryFn: async ({ pageParam }): Promise<PredictionPage> => {
+      if (INDEXER_URL) {
+        return fetchIndexedPage(filter, account, pageParam);
+      }
+      if (!publicClient) {
+        throw new Error('Public client not available');
+      }
+      const offset = BigInt(pageParam);
+      const limit = BigInt(PREDICTION_PAGE_SIZE);
+
+      if (filter === 'active') {
+        const total = await publicClient.readContract({
+          address: contracts.zeroTrustPredict,
+          abi: ZERO_TRUST_PREDICT_ABI,
+          functionName: 'predictionsCount',
+        });
+        // Each call only scans one page of predictions, so keep scanning until a page of matches is found
+        const ids: bigint[] = [];
+        let nextOffset = offset;
+        while (ids.length < PREDICTION_PAGE_SIZE && nextOffset < total) {
+          const [found, scannedTo] = await publicClient.readContract({
+            address: contracts.zeroTrustPredict,
+            abi: ZERO_TRUST_PREDICT_ABI,
+            functionName: 'getActivePredictionIds',
+            args: [nextOffset, limit],
+          });
+          ids.push(...found);
+          nextOffset = scannedTo;
+        }
+        const summaries = ids.length
+          ? await publicClient.readContract({
+              address: contracts.lens,
+              abi: ZERO_TRUST_PREDICT_LENS_ABI,
+              functionName: 'getPredictionSummaries',
+              args: [ids],
+            })
+          : [];
+        return { summaries, nextOffset: nextOffset < total ? Number(nextOffset) : undefined };
+      }
+
+      const [summaries, total] =
+        filter === 'mine' && account
+          ? await publicClient.readContract({
+              address: contracts.lens,
+              abi: ZERO_TRUST_PREDICT_LENS_ABI,
+              functionName: 'getPredictionsByCreator',
+              args: [account, offset, limit],
+            })
+          : await publicClient.readContract({
+              address: contracts.lens,
+              abi: ZERO_TRUST_PREDICT_LENS_ABI,
+              functionName: 'getPredictionsPage',
+              args: [offset, limit],
+            });
+      const loaded = pageParam + summaries.length;
+      return {
+        summaries,
+        total: Number(total),
+        nextOffset: summaries.length > 0 && loaded < Number(total) ? loaded : undefined,
+      };
+    },
+    getNextPageParam: (lastPage) => lastPage.nextOffset,
+  });
+
+  // Re-reads a single prediction and patches it into every loaded feed, instead of refetching all pages
+  const refreshPrediction = useCallback(
+    async (predictionId: number) => {
+      if (!publicClient) {
+        return;
+      }
+      const [summary] = await publicClient.readContract({
+        address: contracts.lens,
+        abi: ZERO_TRUST_PREDICT_LENS_ABI,
+        functionName: 'getPredictionSummaries',
+        args: [[BigInt(predictionId)]],
+      });
+      if (!summary) {
+        return;
+      }
+      queryClient.setQueriesData<InfiniteData<PredictionPage, number>>({ queryKey: ['predictionFeed'] }, (data) =>
+        data
+          ? {
+              ...data,
+              pages: data.pages.map((page) => ({
+                ...page,
+                summaries: page.summaries.map((current) => (current.id === summary.id ? summary : current)),
+              })),
+            }
+          : data,
+      );
+    },
+    [publicClient, queryClient, contracts.lens],
+  );
+
+  const predictions = useMemo(
+    () => query.data?.pages.flatMap((page) => page.summaries.map(toChainData)) ?? [],
+    [query.data],
+  );
+
+  return {
+    predictions,
+    total: query.data?.pages[0]?.total,
+    isLoading: query.isLoading,
+    isFetchingNextPage: query.isFetchingNextPage,
+    hasNextPage: query.hasNextPage,
+    fetchNextPage: query.fetchNextPage,
+    refetch: query.refetch,
+    refreshPrediction,
+  };
+}
@@ -1,8 +1,10 @@
 import { useState, useEffect } from 'react';
-import { createInstance,initSDK,SepoliaConfig } from '@zama-fhe/relayer-sdk/bundle';
+import { createInstance, initSDK, type FhevmInstance } from '@zama-fhe/relayer-sdk/bundle';
 
-export function useZamaInstance() {
-  const [instance, setInstance] = useState<any>(null);
+import type { FheConfig } from '../config/chains';
+
+export function useZamaInstance(fhe: FheConfig) {
+  const [instance, setInstance] = useState<FhevmInstance | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -13,9 +15,17 @@ export function useZamaInstance() {
       try {
         setIsLoading(true);
         setError(null);
-        await initSDK()
-
-        const zamaInstance = await createInstance(SepoliaConfig);
+        setInstance(null);
+
+        let zamaInstance: FhevmInstance;
+        if (fhe.mode === 'mock') {
+          // Loaded on demand so that the mock engine stays out of the production bundle
+          const { createMockInstance } = await import('../utils/fhevmMock');
+          zamaInstance = await createMockInstance(fhe.rpcUrl);
+        } else {
+          await initSDK();
+          zamaInstance = await createInstance(fhe.config);
+        }
 
         if (mounted) {
           setInstance(zamaInstance);
@@ -23,7 +33,11 @@ export function useZamaInstance() {
       } catch (err) {
         console.error('Failed to initialize Zama instance:', err);
         if (mounted) {
-          setError('Failed to initialize encryption service');
+          setError(
+            fhe.mode === 'mock'
+              ? 'Failed to reach the local Hardhat node, is `npx hardhat node` running?'
+              : 'Failed to initialize encryption service',
+          );
         }
       } finally {
         if (mounted) {
@@ -37,7 +51,7 @@ export function useZamaInstance() {
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [fhe]);
 
   return { instance, isLoading, error };
-}
\ No newline at end of file
+}
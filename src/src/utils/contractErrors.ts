@@ -0,0 +1,127 @@
+import { Interface, type ErrorDescription } from 'ethers';
+
+import { PREDICT_COIN_ABI, ZERO_TRUST_PREDICT_ABI } from '../config/contracts';
+import { FheError, describeFheError } from './fhe';
+import { formatBps, formatDateTime, formatTokenAmount } from './format';
+
+/** One-click remedies the UI can offer next to an error */
+export type ContractErrorFix = 'authorizeMarket' | 'claimFaucet';
+
+export type ContractErrorMessage = {
+  message: string;
+  fix?: ContractErrorFix;
+};
+
+// Market calls move PredictCoin, so their reverts may carry errors from either contract
+const errorInterface = new Interface(
+  [...ZERO_TRUST_PREDICT_ABI, ...PREDICT_COIN_ABI].filter((fragment) => fragment.type === 'error'),
+);
+
+const REQUIRE_MESSAGES: Record<string, string> = {
+  'Title required': 'Enter a title for the prediction.',
+  'Blank option': 'Option labels cannot be blank.',
+};
+
+const ERROR_MESSAGES: Record<string, (args: ErrorDescription['args']) => ContractErrorMessage> = {
+  InvalidPredictionId: () => ({ message: 'This prediction does not exist.' }),
+  InvalidOptionCount: ([supplied]) => ({ message: `A prediction needs two to six options, ${supplied} were given.` }),
+  InactivePrediction: () => ({ message: 'This prediction is not accepting selections.' }),
+  BettingClosed: ([, closesAt]) => ({ message: `Betting closed ${formatDateTime(Number(closesAt))}.` }),
+  InvalidCloseTime: () => ({ message: 'Betting must close in the future.' }),
+  InvalidResolveDeadline: () => ({ message: 'The resolution deadline cannot be before betting closes.' }),
+  ResolutionDeadlinePassed: () => ({ message: 'The resolution deadline has passed, the prediction can be cancelled.' }),
+  NotPredictionCreator: () => ({ message: 'Only the creator of this prediction can do that.' }),
+  NotPredictionResolver: () => ({ message: 'Only the resolver of this prediction can do that.' }),
+  OutcomeNotAvailable: () => ({ message: 'The resolver has not decided an outcome yet.' }),
+  PredictionNotOpen: () => ({ message: 'This prediction is already settled.' }),
+  DisputeWindowClosed: () => ({ message: 'The challenge window has closed.' }),
+  DisputeWindowOpen: ([, disputeEndsAt]) => ({
+    message: `The outcome can be finalized after ${formatDateTime(Number(disputeEndsAt))}.`,
+  }),
+  TalliesNotShared: () => ({ message: 'This prediction does not share its running tallies with bettors.' }),
+  NotArbiter: () => ({ message: 'Only the arbiter can settle disputes.' }),
+  ChallengePending: () => ({ message: 'A challenge of this outcome is waiting for its bond to be confirmed.' }),
+  NoPendingChallenge: () => ({ message: 'There is no pending challenge to confirm.' }),
+  FeeTooHigh: ([, maxFeeBps]) => ({ message: `The fee cannot exceed ${formatBps(Number(maxFeeBps))}.` }),
+  PositionAlreadyPlaced: () => ({ message: 'You already hold a position here: top up or move your stake instead.' }),
+  NoPosition: () => ({ message: 'You have no position in this prediction.' }),
+  AlreadyClaimed: () => ({ message: 'This position has already been paid out.' }),
+  NothingToClaim: () => ({ message: 'You have no position in this prediction.' }),
+  PayoutsNotPublished: () => ({ message: 'Payout totals must be published before claiming.' }),
+  ERC7984UnauthorizedSpender: () => ({
+    message: 'Authorize the market to move your PredictCoin first.',
+    fix: 'authorizeMarket',
+  }),
+  ERC7984ZeroBalance: () => ({
+    message: 'You have no PredictCoin yet, claim some from the faucet first.',
+    fix: 'claimFaucet',
+  }),
+  FaucetDisabled: () => ({ message: 'The faucet is switched off for now.' }),
+  FaucetCooldown: ([, nextClaimAt]) => ({
+    message: `You already claimed today, the faucet opens again ${formatDateTime(Number(nextClaimAt))}.`,
+  }),
+  FaucetDailyCapReached: ([dailyCap]) => ({
+    message: `The faucet handed out its ${formatTokenAmount(dailyCap)} PCoin for today, try again after midnight UTC.`,
+  }),
+  FaucetAmountTooHigh: ([, dailyCap]) => ({
+    message: `A faucet claim cannot exceed the daily cap of ${formatTokenAmount(dailyCap)} PCoin.`,
+  }),
+  // Declared by both ZeroTrustPredict and PredictCoin, so the message cannot name either
+  NotOwner: () => ({ message: 'Only the contract owner can do that.' }),
+};
+
+const REVERT_DATA_PATTERN = /^0x[0-9a-f]{8}/i;
+
+// Wallets and ethers nest the raw revert data at different depths of the error they throw
+function findRevertData(value: unknown, depth = 0): string | undefined {
+  if (typeof value === 'string') {
+    return REVERT_DATA_PATTERN.test(value) ? value : undefined;
+  }
+  if (depth > 4 || typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+  const nested = value as Record<string, unknown>;
+  for (const key of ['data', 'error', 'info', 'cause']) {
+    const found = findRevertData(nested[key], depth + 1);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+/** Decodes the custom error or `require` reason a transaction reverted with, if it comes from our contracts */
+export function decodeContractError(error: unknown): ErrorDescription | undefined {
+  const data = findRevertData(error);
+  if (!data) {
+    return undefined;
+  }
+  try {
+    return errorInterface.parseError(data) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Turns a failed transaction or FHE operation into a message for the user, with a fix when one action clears
+ * the error. Errors that cannot be decoded fall back to `fallback`.
+ */
+export function describeContractError(error: unknown, fallback: string): ContractErrorMessage {
+  if (error instanceof FheError) {
+    return { message: describeFheError(error, fallback) };
+  }
+  const { code } = (typeof error === 'object' && error !== null ? error : {}) as { code?: unknown };
+  if (code === 'ACTION_REJECTED' || code === 4001) {
+    return { message: 'The transaction was rejected in the wallet.' };
+  }
+  const decoded = decodeContractError(error);
+  if (!decoded) {
+    return { message: fallback };
+  }
+  if (decoded.name === 'Error') {
+    const reason = String(decoded.args[0]);
+    return { message: REQUIRE_MESSAGES[reason] ?? `${reason}.` };
+  }
+  return ERROR_MESSAGES[decoded.name]?.(decoded.args) ?? { message: `${fallback} (${decoded.name})` };
+}
@@ -0,0 +1,198 @@
+import type { JsonRpcSigner } from 'ethers';
+import type {
+  FhevmInstance,
+  HandleContractPair,
+  PublicDecryptResults,
+  UserDecryptResults,
+} from '@zama-fhe/relayer-sdk/bundle';
+
+import type { ChainContracts } from '../config/chains';
+
+export class FheError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/** The relayer (or the local node in mock mode) could not be reached or failed to answer */
+export class RelayerUnavailableError extends FheError {}
+
+/** The wallet declined to sign the decryption request */
+export class SignatureRejectedError extends FheError {}
+
+/** The ACL does not grant the account or the contract access to one of the handles */
+export class AclDeniedError extends FheError {}
+
+const RETRY_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1_000;
+
+type ErrorDetails = { code?: unknown; status?: unknown };
+
+const detailsOf = (value: unknown): ErrorDetails =>
+  typeof value === 'object' && value !== null ? (value as ErrorDetails) : {};
+
+/**
+ * Sorts an error thrown by the relayer SDK or the wallet into one of the classes above. Relayer failures carry
+ * the HTTP status on `cause`, wallets report a refused prompt as EIP-1193 code 4001 (ethers: `ACTION_REJECTED`).
+ */
+export function toFheError(error: unknown): FheError {
+  if (error instanceof FheError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  const { code } = detailsOf(error);
+  const cause = detailsOf(error instanceof Error ? error.cause : undefined);
+
+  if (code === 'ACTION_REJECTED' || code === 4001 || /user (rejected|denied)/i.test(message)) {
+    return new SignatureRejectedError('The signature request was rejected in the wallet.', { cause: error });
+  }
+  if (/not authorized to user decrypt|not allowed for public decryption/i.test(message)) {
+    return new AclDeniedError('This account is not allowed to decrypt one of these values.', { cause: error });
+  }
+  const status = typeof cause.status === 'number' ? cause.status : undefined;
+  if (
+    (status !== undefined && (status === 429 || status >= 500)) ||
+    cause.code === 'RELAYER_FETCH_ERROR' ||
+    (error instanceof TypeError && /fetch|network/i.test(message))
+  ) {
+    return new RelayerUnavailableError('The encryption relayer is unreachable, try again in a moment.', {
+      cause: error,
+    });
+  }
+  return new FheError(message, { cause: error });
+}
+
+/** Retries relayer outages with exponential backoff; every other failure is final and rethrown at once */
+async function withRetry<T>(operation: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const fheError = toFheError(error);
+      if (!(fheError instanceof RelayerUnavailableError) || attempt >= RETRY_ATTEMPTS) {
+        throw fheError;
+      }
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * 2 ** (attempt - 1)));
+    }
+  }
+}
+
+/** Keypair and `UserDecryptRequestVerification` signature authorizing user decryptions for a set of contracts */
+export type DecryptionSession = {
+  userAddress: string;
+  contractAddresses: string[];
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTime: number;
+  durationDays: number;
+};
+
+// Arguments of the matching ZeroTrustPredict functions, ready to spread into the contract call
+export type PlaceSelectionArgs = [
+  predictionId: number,
+  option: Uint8Array,
+  optionProof: Uint8Array,
+  stake: Uint8Array,
+  stakeProof: Uint8Array,
+];
+export type ChangeChoiceArgs = [predictionId: number, option: Uint8Array, optionProof: Uint8Array];
+export type IncreaseStakeArgs = [predictionId: number, stake: Uint8Array, stakeProof: Uint8Array];
+
+export type FheClient = {
+  encryptSelection: (predictionId: number, option: number, amount: bigint) => Promise<PlaceSelectionArgs>;
+  encryptChoice: (predictionId: number, option: number) => Promise<ChangeChoiceArgs>;
+  encryptStake: (predictionId: number, amount: bigint) => Promise<IncreaseStakeArgs>;
+  createDecryptionSession: (
+    signer: JsonRpcSigner,
+    contractAddresses: string[],
+    durationDays: number,
+  ) => Promise<DecryptionSession>;
+  decryptHandles: (handles: HandleContractPair[], session: DecryptionSession) => Promise<UserDecryptResults>;
+  publicDecrypt: (handles: string[]) => Promise<PublicDecryptResults>;
+};
+
+/**
+ * Wraps an FHEVM instance with the encryptions and decryptions the app needs. Choices are encrypted for
+ * ZeroTrustPredict on behalf of the user, stakes for PredictCoin on behalf of the market that moves them.
+ */
+export function createFheClient(instance: FhevmInstance, contracts: ChainContracts, user?: string): FheClient {
+  const requireUser = () => {
+    if (!user) {
+      throw new FheError('Connect a wallet to encrypt inputs.');
+    }
+    return user;
+  };
+
+  const encryptOption = async (option: number) => {
+    const { handles, inputProof } = await withRetry(() =>
+      instance.createEncryptedInput(contracts.zeroTrustPredict, requireUser()).add8(option).encrypt(),
+    );
+    return [handles[0], inputProof] as const;
+  };
+
+  const encryptAmount = async (amount: bigint) => {
+    const { handles, inputProof } = await withRetry(() =>
+      instance.createEncryptedInput(contracts.predictCoin, contracts.zeroTrustPredict).add64(amount).encrypt(),
+    );
+    return [handles[0], inputProof] as const;
+  };
+
+  return {
+    encryptSelection: async (predictionId, option, amount) => {
+      const [encryptedOption, encryptedStake] = await Promise.all([encryptOption(option), encryptAmount(amount)]);
+      return [predictionId, ...encryptedOption, ...encryptedStake];
+    },
+
+    encryptChoice: async (predictionId, option) => [predictionId, ...(await encryptOption(option))],
+
+    encryptStake: async (predictionId, amount) => [predictionId, ...(await encryptAmount(amount))],
+
+    createDecryptionSession: async (signer, contractAddresses, durationDays) => {
+      const keypair = instance.generateKeypair();
+      const startTime = Math.floor(Date.now() / 1000);
+      const eip712 = instance.createEIP712(keypair.publicKey, contractAddresses, startTime, durationDays);
+      const signature = await signer
+        .signTypedData(
+          eip712.domain,
+          { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+          eip712.message,
+        )
+        .catch((error: unknown) => {
+          throw toFheError(error);
+        });
+      return {
+        userAddress: await signer.getAddress(),
+        contractAddresses,
+        publicKey: keypair.publicKey,
+        privateKey: keypair.privateKey,
+        signature: signature.replace('0x', ''),
+        startTime,
+        durationDays,
+      };
+    },
+
+    decryptHandles: (handles, session) =>
+      withRetry(() =>
+        instance.userDecrypt(
+          handles,
+          session.privateKey,
+          session.publicKey,
+          session.signature,
+          session.contractAddresses,
+          session.userAddress,
+          session.startTime,
+          session.durationDays,
+        ),
+      ),
+
+    publicDecrypt: (handles) => withRetry(() => instance.publicDecrypt(handles)),
+  };
+}
+
+/** Message for a failed FHE operation, or `fallback` for errors this module could not classify */
+export const describeFheError = (error: unknown, fallback: string) =>
+  error instanceof RelayerUnavailableError || error instanceof SignatureRejectedError || error instanceof AclDeniedError
+    ? error.message
+    : fallback;
@@ -0,0 +1,48 @@
+import { Contract, JsonRpcProvider } from 'ethers';
+import { MockFhevmInstance } from '@fhevm/mock-utils';
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle';
+
+// Returned by the `fhevm_relayer_metadata` method of `npx hardhat node`
+type RelayerMetadata = {
+  chainId: number;
+  gatewayChainId: number;
+  ACLAddress: `0x${string}`;
+  InputVerifierAddress: `0x${string}`;
+  KMSVerifierAddress: `0x${string}`;
+};
+
+const EIP712_DOMAIN_ABI = [
+  'function eip712Domain() view returns (bytes1, string, string, uint256, address, bytes32, uint256[])',
+];
+
+/**
+ * Builds an FHEVM instance for a local Hardhat node. The node's mock engine serves input proofs and user
+ * decryptions over JSON-RPC, so values are only simulated and never leave the machine: use it for development only.
+ */
+export async function createMockInstance(rpcUrl: string): Promise<FhevmInstance> {
+  const provider = new JsonRpcProvider(rpcUrl);
+  const metadata: RelayerMetadata = await provider.send('fhevm_relayer_metadata', []);
+
+  // The gateway contracts signing proofs and decryptions are named in the verifiers' EIP-712 domains
+  const verifyingContractOf = async (address: string) =>
+    (await new Contract(address, EIP712_DOMAIN_ABI, provider).eip712Domain())[4] as `0x${string}`;
+  const [decryptionVerifier, inputVerifier] = await Promise.all([
+    verifyingContractOf(metadata.KMSVerifierAddress),
+    verifyingContractOf(metadata.InputVerifierAddress),
+  ]);
+
+  return MockFhevmInstance.create(
+    provider,
+    provider,
+    {
+      aclContractAddress: metadata.ACLAddress,
+      chainId: metadata.chainId,
+      gatewayChainId: metadata.gatewayChainId,
+      inputVerifierContractAddress: metadata.InputVerifierAddress,
+      kmsContractAddress: metadata.KMSVerifierAddress,
+      verifyingContractAddressDecryption: decryptionVerifier,
+      verifyingContractAddressInputVerification: inputVerifier,
+    },
+    { inputVerifierProperties: {}, kmsVerifierProperties: {} },
+  );
+}
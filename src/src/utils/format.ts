@@ -12,6 +12,31 @@ export function formatDateTime(timestampInSeconds: number): string {
   return date.toLocaleString();
 }
 
+export function formatCountdown(secondsRemaining: number): string {
+  if (secondsRemaining <= 0) return '0s';
+  const days = Math.floor(secondsRemaining / 86400);
+  const hours = Math.floor((secondsRemaining % 86400) / 3600);
+  const minutes = Math.floor((secondsRemaining % 3600) / 60);
+  const seconds = Math.floor(secondsRemaining % 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
+
+export function formatBps(basisPoints: number): string {
+  return `${basisPoints / 100}%`;
+}
+
+export function parseDateTimeInput(rawValue: string): number {
+  if (!rawValue) return 0;
+  const millis = new Date(rawValue).getTime();
+  if (Number.isNaN(millis)) {
+    throw new Error('Invalid date');
+  }
+  return Math.floor(millis / 1000);
+}
+
 export function parseAmountInput(rawValue: string): bigint {
   const value = rawValue.trim();
   if (!value) {
@@ -0,0 +1,21 @@
+import { Contract, type JsonRpcSigner } from 'ethers';
+
+import type { ChainContracts } from '../config/chains';
+import { PREDICT_COIN_ABI } from '../config/contracts';
+
+const OPERATOR_APPROVAL_DAYS = 30;
+
+/** Mints the faucet allowance of PredictCoin to the signer */
+export async function claimFaucet(signer: JsonRpcSigner, contracts: ChainContracts) {
+  const coin = new Contract(contracts.predictCoin, PREDICT_COIN_ABI, signer);
+  const tx = await coin.faucet();
+  await tx.wait();
+}
+
+/** Lets ZeroTrustPredict move the signer's PredictCoin into markets for the next 30 days */
+export async function authorizeMarket(signer: JsonRpcSigner, contracts: ChainContracts) {
+  const coin = new Contract(contracts.predictCoin, PREDICT_COIN_ABI, signer);
+  const expiresAt = Math.floor(Date.now() / 1000) + OPERATOR_APPROVAL_DAYS * 24 * 60 * 60;
+  const tx = await coin.setOperator(contracts.zeroTrustPredict, expiresAt);
+  await tx.wait();
+}
@@ -0,0 +1,155 @@
+import type { ClearValueType, UserDecryptResults } from '@zama-fhe/relayer-sdk/bundle';
+
+const DB_NAME = 'zero-trust-predict';
+const DB_VERSION = 2;
+
+export const KEY_STORE = 'keys';
+export const CLEAR_VALUE_STORE = 'clearValues';
+
+export function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(KEY_STORE)) {
+        db.createObjectStore(KEY_STORE);
+      }
+      if (!db.objectStoreNames.contains(CLEAR_VALUE_STORE)) {
+        db.createObjectStore(CLEAR_VALUE_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const VAULT_KEY_ID = 'session-vault';
+
+let vaultKeyPromise: Promise<CryptoKey> | undefined;
+
+// The AES key never leaves the browser's crypto store: it is generated non-extractable and IndexedDB keeps
+// the CryptoKey object itself, so sealed values copied out of session storage cannot be opened elsewhere
+async function loadVaultKey(): Promise<CryptoKey> {
+  const db = await openDatabase();
+  const existing = await requestToPromise<CryptoKey | undefined>(
+    db.transaction(KEY_STORE).objectStore(KEY_STORE).get(VAULT_KEY_ID),
+  );
+  if (existing) {
+    return existing;
+  }
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  await requestToPromise(db.transaction(KEY_STORE, 'readwrite').objectStore(KEY_STORE).put(key, VAULT_KEY_ID));
+  return key;
+}
+
+// Concurrent first calls share one load, otherwise each would generate its own key and the last one stored
+// would leave the values sealed by the others unreadable. A failed load is dropped so the next call retries.
+function getVaultKey(): Promise<CryptoKey> {
+  vaultKeyPromise ??= loadVaultKey().catch((error: unknown) => {
+    vaultKeyPromise = undefined;
+    throw error;
+  });
+  return vaultKeyPromise;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+export async function sealJson(value: unknown): Promise<string> {
+  const key = await getVaultKey();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext));
+  return `${toBase64(iv)}.${toBase64(ciphertext)}`;
+}
+
+export async function openJson<T>(sealed: string): Promise<T> {
+  const [iv, ciphertext] = sealed.split('.');
+  if (!iv || !ciphertext) {
+    throw new Error('Malformed sealed value');
+  }
+  const key = await getVaultKey();
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(ciphertext));
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+}
+
+type StoredClearValue = { type: 'bigint' | 'boolean' | 'hex'; value: string };
+
+const encodeClearValue = (value: ClearValueType): StoredClearValue =>
+  typeof value === 'bigint'
+    ? { type: 'bigint', value: value.toString() }
+    : typeof value === 'boolean'
+      ? { type: 'boolean', value: String(value) }
+      : { type: 'hex', value };
+
+const decodeClearValue = ({ type, value }: StoredClearValue): ClearValueType =>
+  type === 'bigint' ? BigInt(value) : type === 'boolean' ? value === 'true' : (value as `0x${string}`);
+
+const clearValueKey = (scope: string, handle: string) => `${scope}:${handle.toLowerCase()}`;
+
+/**
+ * Scope under which decrypted values are cached: a handle only identifies a ciphertext on one chain, and
+ * what a user may see of it depends on their own ACL grants.
+ */
+export const clearValueScope = (chainId: number, address: string) => `${chainId}:${address.toLowerCase()}`;
+
+// Handles are immutable, so a cached clear value stays valid for as long as the contract keeps returning
+// the same handle. Values are sealed with the vault key like the decryption session itself.
+export async function readClearValues(scope: string, handles: readonly `0x${string}`[]): Promise<UserDecryptResults> {
+  const db = await openDatabase();
+  const store = db.transaction(CLEAR_VALUE_STORE).objectStore(CLEAR_VALUE_STORE);
+  const sealed = await Promise.all(
+    handles.map((handle) => requestToPromise<string | undefined>(store.get(clearValueKey(scope, handle)))),
+  );
+  const values: UserDecryptResults = {};
+  await Promise.all(
+    handles.map(async (handle, index) => {
+      const entry = sealed[index];
+      if (!entry) {
+        return;
+      }
+      try {
+        values[handle] = decodeClearValue(await openJson<StoredClearValue>(entry));
+      } catch (error) {
+        console.error('Failed to open cached value:', error);
+      }
+    }),
+  );
+  return values;
+}
+
+export async function writeClearValues(scope: string, values: UserDecryptResults): Promise<void> {
+  const entries = await Promise.all(
+    Object.entries(values).map(async ([handle, value]) => [handle, await sealJson(encodeClearValue(value))] as const),
+  );
+  if (entries.length === 0) {
+    return;
+  }
+  const db = await openDatabase();
+  const transaction = db.transaction(CLEAR_VALUE_STORE, 'readwrite');
+  const store = transaction.objectStore(CLEAR_VALUE_STORE);
+  for (const [handle, sealed] of entries) {
+    store.put(sealed, clearValueKey(scope, handle));
+  }
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function clearClearValues(scope: string): Promise<void> {
+  const db = await openDatabase();
+  await requestToPromise(
+    db
+      .transaction(CLEAR_VALUE_STORE, 'readwrite')
+      .objectStore(CLEAR_VALUE_STORE)
+      .delete(IDBKeyRange.bound(`${scope}:`, `${scope}:\uffff`)),
+  );
+}
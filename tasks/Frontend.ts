@@ -0,0 +1,164 @@
+import * as fs from "fs";
+import * as path from "path";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+/**
+ * Tutorial: Point the frontend at your deployments
+ * ================================================
+ *
+ * 1. Deploy on any network, for instance a running `npx hardhat node`
+ *
+ *   npx hardhat --network localhost deploy
+ *
+ * 2. Regenerate src/src/config/contracts.ts from deployments/ and the compiled artifacts
+ *
+ *   npx hardhat task:frontend:contracts
+ *
+ * The generated file maps every chain id to its addresses, which `src/src/config/chains.ts` turns into the chain
+ * registry, and to the first block holding any of the contracts, where the app starts its log scans. It exports
+ * each ABI `as const`, so wagmi infers the exact argument and return types of every call. Chains without a
+ * deployments/ folder on this machine keep the addresses of the previous export, so exporting a localhost
+ * deployment never drops the Sepolia one. Previous entries missing a contract, its deployment block or holding the
+ * zero address are dropped, so a chain only appears once it is deployed.
+ *
+ */
+
+const CONTRACTS = {
+  ZeroTrustPredict: "ZERO_TRUST_PREDICT",
+  PredictCoin: "PREDICT_COIN",
+  ZeroTrustPredictLens: "ZERO_TRUST_PREDICT_LENS",
+} as const;
+
+type ContractName = keyof typeof CONTRACTS;
+
+type AddressBook = Record<string, Record<ContractName, string>>;
+
+type BlockBook = Record<string, number>;
+
+const ZERO_ADDRESS = /^0x0{40}$/i;
+
+const ADDRESS_BOOK_PATTERN = /export const CONTRACT_ADDRESSES = ({[\s\S]*?\n}) as const/;
+
+const BLOCK_BOOK_PATTERN = /export const DEPLOYMENT_BLOCKS = ({[\s\S]*?\n}) as const/;
+
+const parseChainMap = <T>(source: string, pattern: RegExp): Record<string, T> => {
+  const match = pattern.exec(source);
+  if (!match) {
+    return {};
+  }
+  // Chain ids are emitted as numeric keys so that `keyof` yields numbers, quote them back for JSON.parse
+  const json = match[1].replace(/^(\s*)(\d+):/gm, '$1"$2":').replace(/,(\s*})/g, "$1");
+  return JSON.parse(json) as Record<string, T>;
+};
+
+const readPreviousExport = (file: string): { addressBook: AddressBook; blockBook: BlockBook } => {
+  if (!fs.existsSync(file)) {
+    return { addressBook: {}, blockBook: {} };
+  }
+  const source = fs.readFileSync(file, "utf8");
+  const previous = parseChainMap<Partial<Record<ContractName, string>>>(source, ADDRESS_BOOK_PATTERN);
+  const previousBlocks = parseChainMap<number>(source, BLOCK_BOOK_PATTERN);
+  const addressBook: AddressBook = {};
+  const blockBook: BlockBook = {};
+  for (const [chainId, addresses] of Object.entries(previous)) {
+    const complete = (Object.keys(CONTRACTS) as ContractName[]).every(
+      (name) => addresses[name] && !ZERO_ADDRESS.test(addresses[name]),
+    );
+    if (complete && previousBlocks[chainId] !== undefined) {
+      addressBook[chainId] = addresses as Record<ContractName, string>;
+      blockBook[chainId] = previousBlocks[chainId];
+    } else {
+      console.warn(
+        `Dropping chain ${chainId}: the previous export is missing contracts or their deployment block, deploy it again`,
+      );
+    }
+  }
+  return { addressBook, blockBook };
+};
+
+const readDeployment = (
+  deploymentsDir: string,
+  network: string,
+): { addresses: Record<ContractName, string>; firstBlock: number } | undefined => {
+  const networkDir = path.join(deploymentsDir, network);
+  const addresses: Partial<Record<ContractName, string>> = {};
+  let firstBlock = Number.MAX_SAFE_INTEGER;
+  for (const name of Object.keys(CONTRACTS) as ContractName[]) {
+    const file = path.join(networkDir, `${name}.json`);
+    if (!fs.existsSync(file)) {
+      console.warn(`Skipping ${network}: ${name} is not deployed, run \`npx hardhat --network ${network} deploy\``);
+      return undefined;
+    }
+    const deployment = JSON.parse(fs.readFileSync(file, "utf8")) as {
+      address: string;
+      receipt?: { blockNumber: number };
+    };
+    addresses[name] = deployment.address;
+    firstBlock = Math.min(firstBlock, deployment.receipt?.blockNumber ?? 0);
+  }
+  return { addresses: addresses as Record<ContractName, string>, firstBlock };
+};
+
+/**
+ * Example:
+ *   - npx hardhat task:frontend:contracts
+ *   - npx hardhat task:frontend:contracts --networks localhost
+ */
+task("task:frontend:contracts", "Generates the frontend contracts.ts from deployments and compiled artifacts")
+  .addOptionalParam("networks", "Comma-separated deployments/ folders to export, all of them when omitted")
+  .addOptionalParam("out", "Generated file", "src/src/config/contracts.ts")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { artifacts, config } = hre;
+
+    const deploymentsDir = config.paths.deployments;
+    const outFile = path.resolve(config.paths.root, taskArguments.out);
+    const networks: string[] = taskArguments.networks
+      ? (taskArguments.networks as string).split(",").map((network) => network.trim())
+      : fs.existsSync(deploymentsDir)
+        ? fs.readdirSync(deploymentsDir).filter((entry) => fs.existsSync(path.join(deploymentsDir, entry, ".chainId")))
+        : [];
+
+    const { addressBook, blockBook } = readPreviousExport(outFile);
+    for (const network of networks) {
+      const chainIdFile = path.join(deploymentsDir, network, ".chainId");
+      if (!fs.existsSync(chainIdFile)) {
+        throw new Error(`No deployments found in ${path.join(deploymentsDir, network)}`);
+      }
+      const deployment = readDeployment(deploymentsDir, network);
+      if (deployment) {
+        const chainId = fs.readFileSync(chainIdFile, "utf8").trim();
+        addressBook[chainId] = deployment.addresses;
+        blockBook[chainId] = deployment.firstBlock;
+        console.log(`${network} (chain ${chainId}): ${deployment.addresses.ZeroTrustPredict}`);
+      }
+    }
+
+    if (Object.keys(addressBook).length === 0) {
+      throw new Error(
+        `No deployments found in ${deploymentsDir}, run \`npx hardhat --network <network> deploy\` first`,
+      );
+    }
+
+    const chains = Object.entries(addressBook).map(
+      ([chainId, addresses]) => `  ${chainId}: ${JSON.stringify(addresses, null, 2).replace(/\n/g, "\n  ")}`,
+    );
+    const sections = [
+      "// Generated by `npx hardhat task:frontend:contracts` from deployments/ and artifacts/. Do not edit by hand.",
+      "",
+      `export const CONTRACT_ADDRESSES = {\n${chains.join(",\n")}\n} as const;`,
+      "",
+      "export type DeployedChainId = keyof typeof CONTRACT_ADDRESSES;",
+      "",
+      `export const DEPLOYMENT_BLOCKS = {\n${Object.keys(addressBook)
+        .map((chainId) => `  ${chainId}: ${blockBook[chainId]}`)
+        .join(",\n")}\n} as const;`,
+    ];
+    for (const [name, constName] of Object.entries(CONTRACTS)) {
+      const { abi } = await artifacts.readArtifact(name);
+      sections.push("", `export const ${constName}_ABI = ${JSON.stringify(abi, null, 2)} as const;`);
+    }
+
+    fs.writeFileSync(outFile, `${sections.join("\n")}\n`);
+    console.log(`Wrote ${path.relative(config.paths.root, outFile)} for chains ${Object.keys(addressBook).join(", ")}`);
+  });
@@ -0,0 +1,103 @@
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+/**
+ * Tutorial: Index a local market (--network localhost)
+ * ====================================================
+ *
+ * 1. From a separate terminal window:
+ *
+ *   npx hardhat node
+ *
+ * 2. Deploy the contracts
+ *
+ *   npx hardhat --network localhost deploy
+ *
+ * 3. Start the indexer, which replays every ZeroTrustPredict event into SQLite and serves it over HTTP
+ *
+ *   npx hardhat --network localhost task:indexer --port 4000
+ *
+ * 4. Query it, or point the frontend at it with VITE_INDEXER_URL=http://localhost:4000
+ *
+ *   curl http://localhost:4000/predictions
+ *   curl http://localhost:4000/predictions/0/activity?bucket=day
+ *   curl http://localhost:4000/bettors/0x70997970C51812dc3A010C7d01b50e0d17dc79C8
+ *
+ */
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:indexer
+ *   - npx hardhat --network sepolia task:indexer --db sepolia.sqlite --confirmations 20
+ *   - npx hardhat task:indexer --rpc https://rpc.example.org --market 0x... --lens 0x... --from-block 123
+ */
+task("task:indexer", "Indexes ZeroTrustPredict events into SQLite and serves them over HTTP")
+  .addOptionalParam("market", "Optionally specify the ZeroTrustPredict contract address")
+  .addOptionalParam("lens", "Optionally specify the ZeroTrustPredictLens contract address")
+  .addOptionalParam("rpc", "Optionally index another RPC endpoint than the selected network")
+  .addOptionalParam("db", "SQLite database file", "indexer.sqlite")
+  .addOptionalParam("port", "HTTP port of the JSON API", "4000")
+  .addOptionalParam("interval", "Polling interval in milliseconds", "2000")
+  .addOptionalParam("fromBlock", "First block to index on a fresh database")
+  .addOptionalParam("confirmations", "Blocks to wait before indexing, 12 on live networks and 0 on Hardhat by default")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    // Loaded lazily so that other tasks neither need the native SQLite bindings nor compiled typechain types
+    const { IndexerStore } = await import("../indexer/store");
+    const { watchMarket, DEFAULT_CONFIRMATIONS } = await import("../indexer/sync");
+    const { createIndexerServer } = await import("../indexer/server");
+
+    const provider = taskArguments.rpc ? new ethers.JsonRpcProvider(taskArguments.rpc) : ethers.provider;
+    // The local Hardhat chain never reorgs, so only there is indexing up to the head safe
+    const isLocalChain = (await provider.getNetwork()).chainId === 31337n;
+
+    const port = parseInt(taskArguments.port);
+    const interval = parseInt(taskArguments.interval);
+    const confirmations =
+      taskArguments.confirmations !== undefined
+        ? parseInt(taskArguments.confirmations)
+        : isLocalChain
+          ? 0
+          : DEFAULT_CONFIRMATIONS;
+    if (!Number.isInteger(port) || !Number.isInteger(interval) || !Number.isInteger(confirmations)) {
+      throw new Error(`Arguments --port, --interval and --confirmations must be integers`);
+    }
+
+    const marketDeployment = taskArguments.market
+      ? { address: taskArguments.market as string, receipt: undefined }
+      : await deployments.get("ZeroTrustPredict");
+    const lensAddress: string = taskArguments.lens ?? (await deployments.get("ZeroTrustPredictLens")).address;
+    const fromBlock =
+      taskArguments.fromBlock !== undefined
+        ? parseInt(taskArguments.fromBlock)
+        : (marketDeployment.receipt?.blockNumber ?? 0);
+
+    const store = new IndexerStore(taskArguments.db);
+    const options = { market: marketDeployment.address, lens: lensAddress, fromBlock, confirmations };
+
+    console.log(`ZeroTrustPredict: ${options.market}`);
+    console.log(`ZeroTrustPredictLens: ${options.lens}`);
+    console.log(`Database: ${taskArguments.db}`);
+    console.log(`Confirmations: ${confirmations}`);
+
+    const stop = watchMarket(provider, store, options, interval, (result) => {
+      if (result.events > 0) {
+        console.log(
+          `Indexed blocks ${result.fromBlock}-${result.toBlock}: ${result.events} events, ${result.predictions} predictions refreshed`,
+        );
+      }
+    });
+    const server = createIndexerServer(store, options.market);
+    server.listen(port, () => console.log(`Indexer API listening on http://localhost:${port}`));
+
+    await new Promise<void>((resolve) => {
+      process.once("SIGINT", () => {
+        stop();
+        server.close(() => {
+          store.close();
+          resolve();
+        });
+      });
+    });
+  });
@@ -0,0 +1,242 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+/**
+ * Tutorial: Get PredictCoin to bet with (--network localhost)
+ * ===========================================================
+ *
+ * 1. Deploy the contracts on a running `npx hardhat node`
+ *
+ *   npx hardhat --network localhost deploy
+ *
+ * 2. Mint 100 PCoin from the faucet (once a day per account)
+ *
+ *   npx hardhat --network localhost task:coin:faucet
+ *
+ * 3. Let ZeroTrustPredict move your PCoin for 30 days
+ *
+ *   npx hardhat --network localhost task:coin:authorize --days 30
+ *
+ * 4. Decrypt your confidential balance
+ *
+ *   npx hardhat --network localhost task:coin:balance
+ *
+ */
+
+const PCOIN_DECIMALS = 6;
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:coin:faucet
+ *   - npx hardhat --network sepolia task:coin:faucet
+ */
+task("task:coin:faucet", "Mints the faucet amount of PCoin to the first account")
+  .addOptionalParam("address", "Optionally specify the PredictCoin contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const PredictCoinDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("PredictCoin");
+    console.log(`PredictCoin: ${PredictCoinDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+
+    const predictCoinContract = await ethers.getContractAt("PredictCoin", PredictCoinDeployment.address);
+
+    const tx = await predictCoinContract.connect(signers[0]).faucet();
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const nextClaimAt = await predictCoinContract.nextFaucetClaimAt(signers[0].address);
+    console.log(`PredictCoin faucet claimed by ${signers[0].address}!`);
+    console.log(`Next claim available at ${new Date(Number(nextClaimAt) * 1000).toISOString()}`);
+  });
+
+/**
+ * Example (owner only):
+ *   - npx hardhat --network localhost task:coin:faucet-config --amount 50
+ *   - npx hardhat --network sepolia task:coin:faucet-config --enabled false
+ */
+task("task:coin:faucet-config", "Sets the PCoin minted per faucet claim and switches the faucet on or off")
+  .addOptionalParam("address", "Optionally specify the PredictCoin contract address")
+  .addOptionalParam("amount", "PCoin minted per claim, defaults to the current amount")
+  .addOptionalParam("enabled", "Whether the faucet accepts claims: true|false, defaults to the current state")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    if (taskArguments.enabled !== undefined && !["true", "false"].includes(taskArguments.enabled)) {
+      throw new Error(`Argument --enabled must be true or false`);
+    }
+
+    const PredictCoinDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("PredictCoin");
+    console.log(`PredictCoin: ${PredictCoinDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+
+    const predictCoinContract = await ethers.getContractAt("PredictCoin", PredictCoinDeployment.address);
+
+    const amount =
+      taskArguments.amount !== undefined
+        ? ethers.parseUnits(taskArguments.amount, PCOIN_DECIMALS)
+        : await predictCoinContract.faucetAmount();
+    const enabled =
+      taskArguments.enabled !== undefined
+        ? taskArguments.enabled === "true"
+        : await predictCoinContract.faucetEnabled();
+
+    const tx = await predictCoinContract.connect(signers[0]).setFaucet(amount, enabled);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(
+      `Faucet ${enabled ? "enabled" : "disabled"}, ${ethers.formatUnits(amount, PCOIN_DECIMALS)} PCoin per claim`,
+    );
+  });
+
+/**
+ * Example (owner only):
+ *   - npx hardhat --network localhost task:coin:mint --to 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 --amount 500
+ */
+task("task:coin:mint", "Mints PCoin to an account outside the faucet")
+  .addOptionalParam("address", "Optionally specify the PredictCoin contract address")
+  .addParam("to", "The account receiving the PCoin")
+  .addParam("amount", "The PCoin amount to mint")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const amount = ethers.parseUnits(taskArguments.amount, PCOIN_DECIMALS);
+
+    const PredictCoinDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("PredictCoin");
+    console.log(`PredictCoin: ${PredictCoinDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+
+    const predictCoinContract = await ethers.getContractAt("PredictCoin", PredictCoinDeployment.address);
+
+    const tx = await predictCoinContract.connect(signers[0]).mint(taskArguments.to, amount);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`Minted ${taskArguments.amount} PCoin to ${taskArguments.to}!`);
+  });
+
+/**
+ * Example (owner only):
+ *   - npx hardhat --network localhost task:coin:burn --amount 500
+ */
+task("task:coin:burn", "Burns PCoin from the owner's balance")
+  .addOptionalParam("address", "Optionally specify the PredictCoin contract address")
+  .addParam("amount", "The PCoin amount to burn")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const amount = ethers.parseUnits(taskArguments.amount, PCOIN_DECIMALS);
+
+    const PredictCoinDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("PredictCoin");
+    console.log(`PredictCoin: ${PredictCoinDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+
+    const predictCoinContract = await ethers.getContractAt("PredictCoin", PredictCoinDeployment.address);
+
+    const tx = await predictCoinContract.connect(signers[0]).burn(amount);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    // Like any confidential transfer, the burn moves nothing if the balance is too low
+    console.log(`Burned up to ${taskArguments.amount} PCoin, check with task:coin:balance`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:coin:authorize
+ *   - npx hardhat --network sepolia task:coin:authorize --days 7
+ */
+task("task:coin:authorize", "Sets ZeroTrustPredict as operator of your PredictCoin")
+  .addOptionalParam("address", "Optionally specify the PredictCoin contract address")
+  .addOptionalParam("market", "Optionally specify the ZeroTrustPredict contract address")
+  .addOptionalParam("days", "Number of days the authorization lasts", "30")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const days = parseInt(taskArguments.days);
+    if (!Number.isInteger(days) || days <= 0) {
+      throw new Error(`Argument --days is not a positive integer`);
+    }
+
+    const PredictCoinDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("PredictCoin");
+    const marketAddress: string = taskArguments.market ?? (await deployments.get("ZeroTrustPredict")).address;
+    console.log(`PredictCoin: ${PredictCoinDeployment.address}`);
+    console.log(`ZeroTrustPredict: ${marketAddress}`);
+
+    const signers = await ethers.getSigners();
+
+    const predictCoinContract = await ethers.getContractAt("PredictCoin", PredictCoinDeployment.address);
+
+    const now = (await ethers.provider.getBlock("latest"))?.timestamp ?? Math.floor(Date.now() / 1000);
+    const until = now + days * 24 * 60 * 60;
+
+    const tx = await predictCoinContract.connect(signers[0]).setOperator(marketAddress, until);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`ZeroTrustPredict is an operator until ${new Date(until * 1000).toISOString()}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:coin:balance
+ *   - npx hardhat --network sepolia task:coin:balance
+ */
+task("task:coin:balance", "Decrypts the confidential PredictCoin balance of the first account")
+  .addOptionalParam("address", "Optionally specify the PredictCoin contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const PredictCoinDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("PredictCoin");
+    console.log(`PredictCoin: ${PredictCoinDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+
+    const predictCoinContract = await ethers.getContractAt("PredictCoin", PredictCoinDeployment.address);
+
+    const encryptedBalance = await predictCoinContract.confidentialBalanceOf(signers[0].address);
+    if (encryptedBalance === ethers.ZeroHash) {
+      console.log(`Encrypted balance: ${encryptedBalance}`);
+      console.log("Clear balance    : 0 PCoin");
+      return;
+    }
+
+    const clearBalance = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      encryptedBalance,
+      PredictCoinDeployment.address,
+      signers[0],
+    );
+    console.log(`Encrypted balance: ${encryptedBalance}`);
+    console.log(`Clear balance    : ${ethers.formatUnits(clearBalance, PCOIN_DECIMALS)} PCoin`);
+  });
@@ -0,0 +1,335 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+/**
+ * Tutorial: Run a market locally (--network localhost)
+ * ====================================================
+ *
+ * 1. From a separate terminal window:
+ *
+ *   npx hardhat node
+ *
+ * 2. Deploy PredictCoin, ZeroTrustPredict and its lens
+ *
+ *   npx hardhat --network localhost deploy
+ *
+ * 3. Fund the first account and let the market move its PredictCoin
+ *
+ *   npx hardhat --network localhost task:coin:faucet
+ *   npx hardhat --network localhost task:coin:authorize
+ *
+ * 4. Create a prediction, bet on it and read your encrypted position back
+ *
+ *   npx hardhat --network localhost task:predict:create --title "Rain tomorrow" --options "Yes,No"
+ *   npx hardhat --network localhost task:predict:list
+ *   npx hardhat --network localhost task:predict:bet --id 0 --option 1 --amount 2.5
+ *   npx hardhat --network localhost task:predict:decrypt --id 0
+ *   npx hardhat --network localhost task:coin:balance
+ *
+ *
+ * Tutorial: Run a market on Sepolia (--network sepolia)
+ * =====================================================
+ *
+ *   Same commands with --network sepolia, once `npx hardhat --network sepolia deploy` has been run.
+ *
+ */
+
+const PCOIN_DECIMALS = 6;
+
+const VISIBILITY = ["hidden", "creator", "bettors"] as const;
+
+const STATE_LABELS = ["Open", "Proposed", "Disputed", "Finalized", "Cancelled"];
+
+const parsePredictionId = (value: string) => {
+  const predictionId = parseInt(value);
+  if (!Number.isInteger(predictionId) || predictionId < 0) {
+    throw new Error(`Argument --id is not a valid prediction id`);
+  }
+  return predictionId;
+};
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:predict:create --title "Rain tomorrow" --options "Yes,No"
+ *   - npx hardhat --network sepolia task:predict:create --title "ETH > 5k" --options "Yes,No" --hours 48 --visibility bettors
+ */
+task("task:predict:create", "Creates a prediction on ZeroTrustPredict")
+  .addOptionalParam("address", "Optionally specify the ZeroTrustPredict contract address")
+  .addParam("title", "The prediction title")
+  .addParam("options", "Comma-separated option labels (2 to 6)")
+  .addOptionalParam("hours", "Hours until betting closes", "24")
+  .addOptionalParam("resolveHours", "Hours until the resolution deadline, 0 for none", "0")
+  .addOptionalParam("visibility", `Tally visibility: ${VISIBILITY.join(", ")}`, "hidden")
+  .addOptionalParam("resolver", "Optional resolver contract deciding the outcome")
+  .addOptionalParam("creatorFee", "Creator fee in basis points", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const options = (taskArguments.options as string)
+      .split(",")
+      .map((label) => label.trim())
+      .filter(Boolean);
+    const hours = parseInt(taskArguments.hours);
+    const resolveHours = parseInt(taskArguments.resolveHours);
+    const creatorFee = parseInt(taskArguments.creatorFee);
+    if (!Number.isInteger(hours) || !Number.isInteger(resolveHours) || !Number.isInteger(creatorFee)) {
+      throw new Error(`Arguments --hours, --resolve-hours and --creator-fee must be integers`);
+    }
+    const visibility = VISIBILITY.indexOf(taskArguments.visibility);
+    if (visibility < 0) {
+      throw new Error(`Argument --visibility must be one of ${VISIBILITY.join(", ")}`);
+    }
+
+    const ZeroTrustPredictDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ZeroTrustPredict");
+    console.log(`ZeroTrustPredict: ${ZeroTrustPredictDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+
+    const zeroTrustPredictContract = await ethers.getContractAt("ZeroTrustPredict", ZeroTrustPredictDeployment.address);
+
+    const now = (await ethers.provider.getBlock("latest"))?.timestamp ?? Math.floor(Date.now() / 1000);
+    const closesAt = now + hours * 3600;
+    const resolveBy = resolveHours > 0 ? closesAt + resolveHours * 3600 : 0;
+
+    const tx = await zeroTrustPredictContract
+      .connect(signers[0])
+      .createPrediction(
+        taskArguments.title,
+        options,
+        closesAt,
+        resolveBy,
+        visibility,
+        taskArguments.resolver ?? ethers.ZeroAddress,
+        creatorFee,
+      );
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const predictionId = (await zeroTrustPredictContract.predictionsCount()) - 1n;
+    console.log(`Prediction ${predictionId} "${taskArguments.title}" created with options: ${options.join(", ")}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:predict:list
+ *   - npx hardhat --network sepolia task:predict:list
+ */
+task("task:predict:list", "Lists every prediction of ZeroTrustPredict")
+  .addOptionalParam("address", "Optionally specify the ZeroTrustPredict contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const ZeroTrustPredictDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ZeroTrustPredict");
+    console.log(`ZeroTrustPredict: ${ZeroTrustPredictDeployment.address}`);
+
+    const zeroTrustPredictContract = await ethers.getContractAt("ZeroTrustPredict", ZeroTrustPredictDeployment.address);
+
+    const count = await zeroTrustPredictContract.predictionsCount();
+    if (count === 0n) {
+      console.log("No predictions yet");
+      return;
+    }
+
+    for (let predictionId = 0n; predictionId < count; predictionId++) {
+      const prediction = await zeroTrustPredictContract.getPrediction(predictionId);
+      const resolution = await zeroTrustPredictContract.getResolution(predictionId);
+      const closesAt = new Date(Number(prediction.closesAt) * 1000).toISOString();
+      console.log(
+        `#${predictionId} ${prediction.title} [${STATE_LABELS[Number(resolution.state)]}${prediction.active ? "" : ", inactive"}]`,
+      );
+      console.log(`    creator  : ${prediction.creator}`);
+      console.log(`    closes   : ${closesAt}`);
+      console.log(`    tallies  : ${VISIBILITY[Number(prediction.tallyVisibility)]}`);
+      console.log(`    options  : ${prediction.optionLabels.map((label, index) => `${index}=${label}`).join(", ")}`);
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:predict:bet --id 0 --option 1 --amount 2.5
+ *   - npx hardhat --network sepolia task:predict:bet --id 0 --option 1 --amount 2.5
+ */
+task("task:predict:bet", "Places an encrypted selection and stake on a prediction")
+  .addOptionalParam("address", "Optionally specify the ZeroTrustPredict contract address")
+  .addParam("id", "The prediction id")
+  .addParam("option", "The option index")
+  .addParam("amount", "The stake in PCoin, e.g. 2.5")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    const predictionId = parsePredictionId(taskArguments.id);
+    const option = parseInt(taskArguments.option);
+    if (!Number.isInteger(option) || option < 0) {
+      throw new Error(`Argument --option is not a valid option index`);
+    }
+    const amount = ethers.parseUnits(taskArguments.amount, PCOIN_DECIMALS);
+
+    await fhevm.initializeCLIApi();
+
+    const ZeroTrustPredictDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ZeroTrustPredict");
+    console.log(`ZeroTrustPredict: ${ZeroTrustPredictDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+
+    const zeroTrustPredictContract = await ethers.getContractAt("ZeroTrustPredict", ZeroTrustPredictDeployment.address);
+    const predictCoinAddress = await zeroTrustPredictContract.predictCoin();
+
+    // The option is bound to the market and the bettor, the stake to PredictCoin and the market that moves it
+    const encryptedOption = await fhevm
+      .createEncryptedInput(ZeroTrustPredictDeployment.address, signers[0].address)
+      .add8(option)
+      .encrypt();
+    const encryptedStake = await fhevm
+      .createEncryptedInput(predictCoinAddress, ZeroTrustPredictDeployment.address)
+      .add64(amount)
+      .encrypt();
+
+    const tx = await zeroTrustPredictContract
+      .connect(signers[0])
+      .placeEncryptedSelection(
+        predictionId,
+        encryptedOption.handles[0],
+        encryptedOption.inputProof,
+        encryptedStake.handles[0],
+        encryptedStake.inputProof,
+      );
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    // PredictCoin moves nothing instead of reverting when the balance is too low, and out-of-range options get
+    // their stake sent back
+    const stakeMoved = await fhevm.userDecryptEbool(
+      await zeroTrustPredictContract.getLastStakeResult(predictionId, signers[0].address),
+      ZeroTrustPredictDeployment.address,
+      signers[0],
+    );
+
+    console.log(
+      stakeMoved
+        ? `Encrypted selection on prediction ${predictionId} placed!`
+        : `Selection on prediction ${predictionId} recorded, but no PredictCoin moved: the stake is zero, the option is out of range or the balance is too low`,
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:predict:decrypt --id 0
+ *   - npx hardhat --network sepolia task:predict:decrypt --id 0
+ */
+task("task:predict:decrypt", "Decrypts your position and, when allowed, the running tallies of a prediction")
+  .addOptionalParam("address", "Optionally specify the ZeroTrustPredict contract address")
+  .addParam("id", "The prediction id")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    const predictionId = parsePredictionId(taskArguments.id);
+
+    await fhevm.initializeCLIApi();
+
+    const ZeroTrustPredictDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ZeroTrustPredict");
+    console.log(`ZeroTrustPredict: ${ZeroTrustPredictDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+
+    const zeroTrustPredictContract = await ethers.getContractAt("ZeroTrustPredict", ZeroTrustPredictDeployment.address);
+
+    const prediction = await zeroTrustPredictContract.getPrediction(predictionId);
+    console.log(`Prediction ${predictionId}: ${prediction.title}`);
+
+    const encryptedStake = await zeroTrustPredictContract.getUserStake(predictionId, signers[0].address);
+    if (encryptedStake === ethers.ZeroHash) {
+      console.log("No position on this prediction");
+    } else {
+      const encryptedChoice = await zeroTrustPredictContract.getUserChoice(predictionId, signers[0].address);
+      const clearStake = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        encryptedStake,
+        ZeroTrustPredictDeployment.address,
+        signers[0],
+      );
+      const clearChoice = await fhevm.userDecryptEuint(
+        FhevmType.euint8,
+        encryptedChoice,
+        ZeroTrustPredictDeployment.address,
+        signers[0],
+      );
+      console.log(`Your stake     : ${ethers.formatUnits(clearStake, PCOIN_DECIMALS)} PCoin`);
+      console.log(`Your choice    : ${prediction.optionLabels[Number(clearChoice)]}`);
+    }
+
+    if (!(await zeroTrustPredictContract.canDecryptTallies(predictionId, signers[0].address))) {
+      console.log("Tallies are not decryptable by this account yet");
+      return;
+    }
+
+    for (let index = 0; index < prediction.optionLabels.length; index++) {
+      const clearSelections = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        prediction.encryptedSelections[index],
+        ZeroTrustPredictDeployment.address,
+        signers[0],
+      );
+      const clearStakes = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        prediction.encryptedStakes[index],
+        ZeroTrustPredictDeployment.address,
+        signers[0],
+      );
+      console.log(
+        `${prediction.optionLabels[index]}: ${clearSelections} selection(s), ${ethers.formatUnits(clearStakes, PCOIN_DECIMALS)} PCoin`,
+      );
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:predict:toggle --id 0
+ *   - npx hardhat --network sepolia task:predict:toggle --id 0 --active true
+ */
+task("task:predict:toggle", "Enables or disables new selections on a prediction you created")
+  .addOptionalParam("address", "Optionally specify the ZeroTrustPredict contract address")
+  .addParam("id", "The prediction id")
+  .addOptionalParam("active", "true or false; flips the current status when omitted")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const predictionId = parsePredictionId(taskArguments.id);
+    if (taskArguments.active !== undefined && !["true", "false"].includes(taskArguments.active)) {
+      throw new Error(`Argument --active must be true or false`);
+    }
+
+    const ZeroTrustPredictDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("ZeroTrustPredict");
+    console.log(`ZeroTrustPredict: ${ZeroTrustPredictDeployment.address}`);
+
+    const signers = await ethers.getSigners();
+
+    const zeroTrustPredictContract = await ethers.getContractAt("ZeroTrustPredict", ZeroTrustPredictDeployment.address);
+
+    const isActive =
+      taskArguments.active !== undefined
+        ? taskArguments.active === "true"
+        : !(await zeroTrustPredictContract.getPrediction(predictionId)).active;
+
+    const tx = await zeroTrustPredictContract.connect(signers[0]).setPredictionActive(predictionId, isActive);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`Prediction ${predictionId} is now ${isActive ? "active" : "inactive"}`);
+  });
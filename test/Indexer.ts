@@ -0,0 +1,230 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import {
+  PredictCoin,
+  PredictCoin__factory,
+  ZeroTrustPredict,
+  ZeroTrustPredict__factory,
+  ZeroTrustPredictLens,
+  ZeroTrustPredictLens__factory,
+} from "../types";
+import { createIndexerServer } from "../indexer/server";
+import { IndexerStore, type ActivityBucket, type Participation, type StoredSummary } from "../indexer/store";
+import { syncMarket, type SyncOptions } from "../indexer/sync";
+
+type Fixture = {
+  predictCoin: PredictCoin;
+  zeroTrustPredict: ZeroTrustPredict;
+  zeroTrustAddress: string;
+  lens: ZeroTrustPredictLens;
+};
+
+const deployFixture = async (arbiter: string): Promise<Fixture> => {
+  const predictCoinFactory = (await ethers.getContractFactory("PredictCoin")) as PredictCoin__factory;
+  const predictCoin = (await predictCoinFactory.deploy()) as PredictCoin;
+
+  const zeroTrustPredictFactory = (await ethers.getContractFactory("ZeroTrustPredict")) as ZeroTrustPredict__factory;
+  const zeroTrustPredict = (await zeroTrustPredictFactory.deploy(
+    await predictCoin.getAddress(),
+    arbiter,
+  )) as ZeroTrustPredict;
+  const zeroTrustAddress = await zeroTrustPredict.getAddress();
+
+  const lensFactory = (await ethers.getContractFactory("ZeroTrustPredictLens")) as ZeroTrustPredictLens__factory;
+  const lens = (await lensFactory.deploy(zeroTrustAddress)) as ZeroTrustPredictLens;
+
+  return { predictCoin, zeroTrustPredict, zeroTrustAddress, lens };
+};
+
+const ONE_DAY = 24 * 60 * 60;
+
+const placeSelection = async (
+  { predictCoin, zeroTrustPredict, zeroTrustAddress }: Fixture,
+  signer: HardhatEthersSigner,
+  predictionId: number,
+  optionIndex: number,
+  stakeAmount: bigint,
+) => {
+  await predictCoin.connect(signer).faucet();
+  await predictCoin.connect(signer).setOperator(zeroTrustAddress, (await time.latest()) + ONE_DAY * 30);
+
+  const encryptedOption = await fhevm
+    .createEncryptedInput(zeroTrustAddress, signer.address)
+    .add8(optionIndex)
+    .encrypt();
+  const encryptedStake = await fhevm
+    .createEncryptedInput(await predictCoin.getAddress(), zeroTrustAddress)
+    .add64(stakeAmount)
+    .encrypt();
+
+  const tx = await zeroTrustPredict
+    .connect(signer)
+    .placeEncryptedSelection(
+      predictionId,
+      encryptedOption.handles[0],
+      encryptedOption.inputProof,
+      encryptedStake.handles[0],
+      encryptedStake.inputProof,
+    );
+  await tx.wait();
+};
+
+describe("Indexer", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let fixture: Fixture;
+  let store: IndexerStore;
+  let options: SyncOptions;
+
+  before(async function () {
+    [deployer, alice, bob, carol] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    fixture = await deployFixture(deployer.address);
+    store = new IndexerStore(":memory:");
+    options = {
+      market: fixture.zeroTrustAddress,
+      lens: await fixture.lens.getAddress(),
+      fromBlock: (await fixture.zeroTrustPredict.deploymentTransaction())?.blockNumber ?? 0,
+    };
+
+    const closesAt = (await time.latest()) + ONE_DAY;
+    await fixture.zeroTrustPredict
+      .connect(alice)
+      .createPrediction("Rain", ["Yes", "No"], closesAt, 0, 0, ethers.ZeroAddress, 0);
+    await fixture.zeroTrustPredict
+      .connect(bob)
+      .createPrediction("Snow", ["Yes", "No"], closesAt, 0, 0, ethers.ZeroAddress, 0);
+  });
+
+  afterEach(function () {
+    store?.close();
+  });
+
+  it("replays events into summaries, timelines and per-bettor participation", async function () {
+    const { zeroTrustPredict, zeroTrustAddress, lens } = fixture;
+
+    await placeSelection(fixture, bob, 0, 1, 1_000_000n);
+    await placeSelection(fixture, carol, 0, 0, 2_000_000n);
+    const encryptedOption = await fhevm.createEncryptedInput(zeroTrustAddress, carol.address).add8(1).encrypt();
+    await zeroTrustPredict.connect(carol).changeChoice(0, encryptedOption.handles[0], encryptedOption.inputProof);
+
+    const result = await syncMarket(ethers.provider, store, options);
+    expect(result.events).to.eq(5);
+    expect(store.countPredictions()).to.eq(2);
+
+    const indexed = store.getPrediction(0);
+    const onChain = (await lens.getPredictionSummaries([0]))[0];
+    expect(indexed?.title).to.eq("Rain");
+    expect(indexed?.creator).to.eq(alice.address);
+    expect(indexed?.encryptedStakes).to.deep.eq([...onChain.encryptedStakes]);
+    expect(indexed?.totalEncryptedStake).to.eq(onChain.totalEncryptedStake);
+
+    // Blocks can straddle a UTC midnight, so only the totals are stable
+    const timeline = store.activityTimeline(0, ONE_DAY);
+    expect(timeline.every(({ start }) => start % ONE_DAY === 0)).to.eq(true);
+    expect(timeline.reduce((sum, bucket) => sum + bucket.selections, 0)).to.eq(2);
+    expect(timeline.reduce((sum, bucket) => sum + bucket.choiceChanges, 0)).to.eq(1);
+
+    const [participation] = store.participation(carol.address);
+    expect(participation.predictionId).to.eq(0);
+    expect(participation.title).to.eq("Rain");
+    expect(participation.selections).to.eq(1);
+    expect(participation.choiceChanges).to.eq(1);
+    expect(store.participation(alice.address)).to.have.length(0);
+
+    expect(store.listPredictions("mine", 0, 10, { creator: bob.address, now: 0 }).total).to.eq(1);
+  });
+
+  it("resumes from the stored cursor and refreshes touched predictions", async function () {
+    const { zeroTrustPredict } = fixture;
+
+    const first = await syncMarket(ethers.provider, store, options);
+    expect(first.events).to.eq(2);
+    const now = await time.latest();
+    expect(store.listPredictions("active", 0, 10, { now }).total).to.eq(2);
+
+    await zeroTrustPredict.connect(bob).cancelPrediction(1);
+
+    const second = await syncMarket(ethers.provider, store, options);
+    expect(second.fromBlock).to.eq(first.toBlock + 1);
+    // Cancelling emits both the status change and the cancellation
+    expect(second.events).to.eq(2);
+    expect(second.predictions).to.eq(1);
+
+    const { predictions, total } = store.listPredictions("active", 0, 10, { now });
+    expect(total).to.eq(1);
+    expect(predictions[0].id).to.eq("0");
+    expect(store.getPrediction(1)?.active).to.eq(false);
+    expect(store.listEvents(1).map((event) => event.name)).to.deep.eq([
+      "PredictionCreated",
+      "PredictionStatusChanged",
+      "PredictionCancelled",
+    ]);
+
+    const third = await syncMarket(ethers.provider, store, options);
+    expect(third.events).to.eq(0);
+  });
+
+  it("stores summaries as of the last confirmed block", async function () {
+    const { zeroTrustPredict } = fixture;
+
+    await syncMarket(ethers.provider, store, options);
+    await zeroTrustPredict.connect(alice).setPredictionActive(0, false);
+    await zeroTrustPredict.connect(alice).setPredictionActive(0, true);
+
+    // The reactivation sits in the unconfirmed head block, so neither its event nor its state is stored yet
+    const result = await syncMarket(ethers.provider, store, { ...options, confirmations: 1 });
+    expect(result.events).to.eq(1);
+    expect(store.getPrediction(0)?.active).to.eq(false);
+
+    await syncMarket(ethers.provider, store, options);
+    expect(store.getPrediction(0)?.active).to.eq(true);
+  });
+
+  it("serves the indexed data over HTTP", async function () {
+    await placeSelection(fixture, carol, 1, 0, 1_000_000n);
+    await syncMarket(ethers.provider, store, options);
+
+    const server: Server = createIndexerServer(store, options.market);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const getJson = async <T>(path: string) => (await (await fetch(`${baseUrl}${path}`)).json()) as T;
+
+    try {
+      const page = await getJson<{ predictions: StoredSummary[]; total: number; nextOffset: number | null }>(
+        "/predictions?limit=1",
+      );
+      expect(page.total).to.eq(2);
+      expect(page.predictions).to.have.length(1);
+      expect(page.nextOffset).to.eq(1);
+
+      const missingCreator = await fetch(`${baseUrl}/predictions?filter=mine`);
+      expect(missingCreator.status).to.eq(400);
+
+      const activity = await getJson<{ timeline: ActivityBucket[] }>("/predictions/1/activity?bucket=hour");
+      expect(activity.timeline).to.have.length(1);
+      expect(activity.timeline[0].selections).to.eq(1);
+      expect(activity.timeline[0].bettors).to.eq(1);
+
+      const bettor = await getJson<{ participations: Participation[] }>(`/bettors/${carol.address}`);
+      expect(bettor.participations.map((entry) => entry.predictionId)).to.deep.eq([1]);
+
+      const unknown = await fetch(`${baseUrl}/predictions/7`);
+      expect(unknown.status).to.eq(404);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
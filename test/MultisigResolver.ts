@@ -0,0 +1,132 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  MultisigResolver,
+  MultisigResolver__factory,
+  PredictCoin,
+  PredictCoin__factory,
+  ZeroTrustPredict,
+  ZeroTrustPredict__factory,
+} from "../types";
+
+type Fixture = {
+  resolver: MultisigResolver;
+  resolverAddress: string;
+  zeroTrustPredict: ZeroTrustPredict;
+  zeroTrustAddress: string;
+};
+
+const deployFixture = async (signers: string[], threshold: number, arbiter: string): Promise<Fixture> => {
+  const predictCoinFactory = (await ethers.getContractFactory("PredictCoin")) as PredictCoin__factory;
+  const predictCoin = (await predictCoinFactory.deploy()) as PredictCoin;
+
+  const zeroTrustPredictFactory = (await ethers.getContractFactory("ZeroTrustPredict")) as ZeroTrustPredict__factory;
+  const zeroTrustPredict = (await zeroTrustPredictFactory.deploy(
+    await predictCoin.getAddress(),
+    arbiter,
+  )) as ZeroTrustPredict;
+  const zeroTrustAddress = await zeroTrustPredict.getAddress();
+
+  const resolverFactory = (await ethers.getContractFactory("MultisigResolver")) as MultisigResolver__factory;
+  const resolver = (await resolverFactory.deploy(signers, threshold)) as MultisigResolver;
+  const resolverAddress = await resolver.getAddress();
+
+  return { resolver, resolverAddress, zeroTrustPredict, zeroTrustAddress };
+};
+
+describe("MultisigResolver", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let fixture: Fixture;
+
+  before(async function () {
+    [deployer, alice, bob, carol] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    fixture = await deployFixture([deployer.address, alice.address, bob.address], 2, deployer.address);
+  });
+
+  it("rejects invalid signer sets and thresholds", async function () {
+    const factory = (await ethers.getContractFactory("MultisigResolver")) as MultisigResolver__factory;
+
+    await expect(factory.deploy([deployer.address], 2))
+      .to.be.revertedWithCustomError(fixture.resolver, "InvalidThreshold")
+      .withArgs(2, 1);
+    await expect(factory.deploy([deployer.address, deployer.address], 1))
+      .to.be.revertedWithCustomError(fixture.resolver, "InvalidSigner")
+      .withArgs(deployer.address);
+  });
+
+  it("finalizes an outcome once the threshold is reached and lets the market pull it", async function () {
+    const { resolver, resolverAddress, zeroTrustPredict, zeroTrustAddress } = fixture;
+    const closesAt = (await time.latest()) + 24 * 60 * 60;
+
+    await zeroTrustPredict
+      .connect(carol)
+      .createPrediction("Multisig", ["Yes", "No"], closesAt, 0, 0, resolverAddress, 0);
+
+    await expect(resolver.connect(carol).voteOutcome(zeroTrustAddress, 0, 1))
+      .to.be.revertedWithCustomError(resolver, "NotSigner")
+      .withArgs(carol.address);
+
+    await resolver.connect(deployer).voteOutcome(zeroTrustAddress, 0, 1);
+    await expect(resolver.connect(deployer).voteOutcome(zeroTrustAddress, 0, 0))
+      .to.be.revertedWithCustomError(resolver, "AlreadyVoted")
+      .withArgs(zeroTrustAddress, 0, deployer.address);
+    await resolver.connect(alice).voteOutcome(zeroTrustAddress, 0, 0);
+
+    // Split votes do not settle anything, and the creator cannot bypass the resolver
+    expect((await resolver.outcomeOf(zeroTrustAddress, 0))[0]).to.eq(false);
+    await expect(zeroTrustPredict.pullResolution(0)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "OutcomeNotAvailable",
+    );
+    await expect(zeroTrustPredict.connect(carol).resolvePrediction(0, 1)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "NotPredictionResolver",
+    );
+
+    await expect(resolver.connect(bob).voteOutcome(zeroTrustAddress, 0, 1))
+      .to.emit(resolver, "OutcomeFinalized")
+      .withArgs(zeroTrustAddress, 0, 1);
+    expect(await resolver.votesFor(zeroTrustAddress, 0, 1)).to.eq(2n);
+
+    await expect(resolver.connect(alice).voteOutcome(zeroTrustAddress, 0, 1)).to.be.revertedWithCustomError(
+      resolver,
+      "OutcomeAlreadyFinal",
+    );
+
+    await expect(zeroTrustPredict.pullResolution(0)).to.emit(zeroTrustPredict, "OutcomeProposed");
+    expect((await zeroTrustPredict.getResolution(0)).winningOption).to.eq(1n);
+  });
+
+  it("rejects votes for options the prediction does not have", async function () {
+    const { resolver, resolverAddress, zeroTrustPredict, zeroTrustAddress } = fixture;
+    const closesAt = (await time.latest()) + 24 * 60 * 60;
+
+    await zeroTrustPredict
+      .connect(carol)
+      .createPrediction("Out of range", ["Yes", "No"], closesAt, 0, 0, resolverAddress, 0);
+
+    // A final outcome the market cannot accept would leave the prediction stuck until it times out
+    await expect(resolver.connect(deployer).voteOutcome(zeroTrustAddress, 0, 2))
+      .to.be.revertedWithCustomError(resolver, "InvalidOption")
+      .withArgs(2, 2);
+    await expect(resolver.connect(deployer).voteOutcome(zeroTrustAddress, 1, 0)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "InvalidPredictionId",
+    );
+
+    await resolver.connect(deployer).voteOutcome(zeroTrustAddress, 0, 1);
+    expect(await resolver.votesFor(zeroTrustAddress, 0, 1)).to.eq(1n);
+  });
+});
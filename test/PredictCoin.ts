@@ -0,0 +1,143 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { PredictCoin, PredictCoin__factory } from "../types";
+
+const ONE_DAY = 24 * 60 * 60;
+const FAUCET_AMOUNT = 100_000_000n;
+
+describe("PredictCoin", function () {
+  let owner: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let predictCoin: PredictCoin;
+  let predictCoinAddress: string;
+
+  before(async function () {
+    [owner, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    const factory = (await ethers.getContractFactory("PredictCoin")) as PredictCoin__factory;
+    predictCoin = (await factory.deploy()) as PredictCoin;
+    predictCoinAddress = await predictCoin.getAddress();
+  });
+
+  const decryptBalance = async (signer: HardhatEthersSigner) =>
+    fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      await predictCoin.confidentialBalanceOf(signer.address),
+      predictCoinAddress,
+      signer,
+    );
+
+  it("lets each account claim the faucet once per cooldown", async function () {
+    expect((await predictCoin.faucetStatus(alice.address)).nextClaimAt).to.eq(0n);
+
+    await expect(predictCoin.connect(alice).faucet())
+      .to.emit(predictCoin, "FaucetClaimed")
+      .withArgs(alice.address, FAUCET_AMOUNT);
+    const claimedAt = await time.latest();
+    const nextClaimAt = BigInt(claimedAt + ONE_DAY);
+    expect(await predictCoin.nextFaucetClaimAt(alice.address)).to.eq(nextClaimAt);
+    expect(await decryptBalance(alice)).to.eq(FAUCET_AMOUNT);
+
+    await expect(predictCoin.connect(alice).faucet())
+      .to.be.revertedWithCustomError(predictCoin, "FaucetCooldown")
+      .withArgs(alice.address, nextClaimAt);
+    // The cooldown is per account
+    await predictCoin.connect(bob).faucet();
+
+    await time.increaseTo(claimedAt + ONE_DAY);
+    await predictCoin.connect(alice).faucet();
+    expect(await decryptBalance(alice)).to.eq(FAUCET_AMOUNT * 2n);
+  });
+
+  it("caps what the faucet mints per day across all accounts", async function () {
+    const cap = await predictCoin.FAUCET_DAILY_CAP();
+    // Start at a UTC midnight so that every claim below lands on the same day
+    await time.increaseTo((Math.floor((await time.latest()) / ONE_DAY) + 1) * ONE_DAY);
+
+    await predictCoin.connect(owner).setFaucet(cap / 2n, true);
+    await predictCoin.connect(alice).faucet();
+    expect((await predictCoin.faucetStatus(bob.address)).remainingToday).to.eq(cap / 2n);
+    await predictCoin.connect(bob).faucet();
+
+    await expect(predictCoin.connect(owner).faucet())
+      .to.be.revertedWithCustomError(predictCoin, "FaucetDailyCapReached")
+      .withArgs(cap);
+
+    await time.increase(ONE_DAY);
+    expect((await predictCoin.faucetStatus(owner.address)).remainingToday).to.eq(cap);
+    await predictCoin.connect(owner).faucet();
+  });
+
+  it("lets only the owner configure or disable the faucet", async function () {
+    await expect(predictCoin.connect(alice).setFaucet(1n, true))
+      .to.be.revertedWithCustomError(predictCoin, "NotOwner")
+      .withArgs(alice.address);
+
+    await expect(predictCoin.connect(owner).setFaucet(5_000_000n, false))
+      .to.emit(predictCoin, "FaucetUpdated")
+      .withArgs(5_000_000n, false);
+    await expect(predictCoin.connect(alice).faucet()).to.be.revertedWithCustomError(predictCoin, "FaucetDisabled");
+
+    await predictCoin.connect(owner).setFaucet(5_000_000n, true);
+    await predictCoin.connect(alice).faucet();
+    expect(await decryptBalance(alice)).to.eq(5_000_000n);
+  });
+
+  it("rejects faucet amounts above the daily cap", async function () {
+    const cap = await predictCoin.FAUCET_DAILY_CAP();
+    await expect(predictCoin.connect(owner).setFaucet(cap + 1n, true))
+      .to.be.revertedWithCustomError(predictCoin, "FaucetAmountTooHigh")
+      .withArgs(cap + 1n, cap);
+
+    await predictCoin.connect(owner).setFaucet(cap, true);
+    await predictCoin.connect(alice).faucet();
+    expect(await decryptBalance(alice)).to.eq(cap);
+  });
+
+  it("mints and burns supply for the owner only", async function () {
+    await expect(predictCoin.connect(alice).mint(alice.address, 1n))
+      .to.be.revertedWithCustomError(predictCoin, "NotOwner")
+      .withArgs(alice.address);
+    await expect(predictCoin.connect(owner).mint(ethers.ZeroAddress, 1n)).to.be.revertedWithCustomError(
+      predictCoin,
+      "InvalidAddress",
+    );
+
+    await expect(predictCoin.connect(owner).mint(bob.address, 7_000_000n))
+      .to.emit(predictCoin, "SupplyMinted")
+      .withArgs(bob.address, 7_000_000n);
+    expect(await decryptBalance(bob)).to.eq(7_000_000n);
+
+    await predictCoin.connect(owner).mint(owner.address, 10_000_000n);
+    await expect(predictCoin.connect(owner).burn(4_000_000n)).to.emit(predictCoin, "SupplyBurned");
+    expect(await decryptBalance(owner)).to.eq(6_000_000n);
+    await expect(predictCoin.connect(alice).burn(1n))
+      .to.be.revertedWithCustomError(predictCoin, "NotOwner")
+      .withArgs(alice.address);
+  });
+
+  it("transfers ownership", async function () {
+    await expect(predictCoin.connect(owner).transferOwnership(alice.address))
+      .to.emit(predictCoin, "OwnershipTransferred")
+      .withArgs(owner.address, alice.address);
+    expect(await predictCoin.owner()).to.eq(alice.address);
+
+    await expect(predictCoin.connect(owner).setFaucet(1n, true))
+      .to.be.revertedWithCustomError(predictCoin, "NotOwner")
+      .withArgs(owner.address);
+    await expect(predictCoin.connect(alice).transferOwnership(ethers.ZeroAddress)).to.be.revertedWithCustomError(
+      predictCoin,
+      "InvalidAddress",
+    );
+  });
+});
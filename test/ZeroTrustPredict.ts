@@ -2,33 +2,147 @@ import { expect } from "chai";
 import { ethers, fhevm } from "hardhat";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { FhevmType } from "@fhevm/hardhat-plugin";
-import { PredictCoin, PredictCoin__factory, ZeroTrustPredict, ZeroTrustPredict__factory } from "../types";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  MockPredictionResolver,
+  MockPredictionResolver__factory,
+  PredictCoin,
+  PredictCoin__factory,
+  ZeroTrustPredict,
+  ZeroTrustPredict__factory,
+  ZeroTrustPredictLens,
+  ZeroTrustPredictLens__factory,
+} from "../types";
 
 type Fixture = {
   predictCoin: PredictCoin;
   zeroTrustPredict: ZeroTrustPredict;
   zeroTrustAddress: string;
+  lens: ZeroTrustPredictLens;
 };
 
-const deployFixture = async (): Promise<Fixture> => {
+const deployFixture = async (arbiter: string): Promise<Fixture> => {
   const predictCoinFactory = (await ethers.getContractFactory("PredictCoin")) as PredictCoin__factory;
   const predictCoin = (await predictCoinFactory.deploy()) as PredictCoin;
 
   const zeroTrustPredictFactory = (await ethers.getContractFactory("ZeroTrustPredict")) as ZeroTrustPredict__factory;
-  const zeroTrustPredict = (await zeroTrustPredictFactory.deploy(await predictCoin.getAddress())) as ZeroTrustPredict;
+  const zeroTrustPredict = (await zeroTrustPredictFactory.deploy(
+    await predictCoin.getAddress(),
+    arbiter,
+  )) as ZeroTrustPredict;
   const zeroTrustAddress = await zeroTrustPredict.getAddress();
 
-  return { predictCoin, zeroTrustPredict, zeroTrustAddress };
+  const lensFactory = (await ethers.getContractFactory("ZeroTrustPredictLens")) as ZeroTrustPredictLens__factory;
+  const lens = (await lensFactory.deploy(zeroTrustAddress)) as ZeroTrustPredictLens;
+
+  return { predictCoin, zeroTrustPredict, zeroTrustAddress, lens };
+};
+
+const ONE_DAY = 24 * 60 * 60;
+
+const TallyVisibility = {
+  HiddenUntilClose: 0,
+  CreatorOnly: 1,
+  Bettors: 2,
+} as const;
+
+const PredictionState = {
+  Open: 0,
+  Proposed: 1,
+  Disputed: 2,
+  Finalized: 3,
+  Cancelled: 4,
+} as const;
+
+const fundAndAuthorize = async ({ predictCoin, zeroTrustAddress }: Fixture, signer: HardhatEthersSigner) => {
+  await predictCoin.connect(signer).faucet();
+  const expiry = (await time.latest()) + ONE_DAY * 30;
+  await predictCoin.connect(signer).setOperator(zeroTrustAddress, expiry);
+};
+
+const placeSelection = async (
+  { predictCoin, zeroTrustPredict, zeroTrustAddress }: Fixture,
+  signer: HardhatEthersSigner,
+  predictionId: number,
+  optionIndex: number,
+  stakeAmount: bigint,
+) => {
+  const encryptedOption = await fhevm
+    .createEncryptedInput(zeroTrustAddress, signer.address)
+    .add8(optionIndex)
+    .encrypt();
+  const encryptedStake = await fhevm
+    .createEncryptedInput(await predictCoin.getAddress(), zeroTrustAddress)
+    .add64(stakeAmount)
+    .encrypt();
+
+  const tx = await zeroTrustPredict
+    .connect(signer)
+    .placeEncryptedSelection(
+      predictionId,
+      encryptedOption.handles[0],
+      encryptedOption.inputProof,
+      encryptedStake.handles[0],
+      encryptedStake.inputProof,
+    );
+  await tx.wait();
+};
+
+const changeChoice = async (
+  { zeroTrustPredict, zeroTrustAddress }: Fixture,
+  signer: HardhatEthersSigner,
+  predictionId: number,
+  optionIndex: number,
+) => {
+  const encryptedOption = await fhevm
+    .createEncryptedInput(zeroTrustAddress, signer.address)
+    .add8(optionIndex)
+    .encrypt();
+
+  const tx = await zeroTrustPredict
+    .connect(signer)
+    .changeChoice(predictionId, encryptedOption.handles[0], encryptedOption.inputProof);
+  await tx.wait();
+};
+
+const increaseStake = async (
+  { predictCoin, zeroTrustPredict, zeroTrustAddress }: Fixture,
+  signer: HardhatEthersSigner,
+  predictionId: number,
+  stakeAmount: bigint,
+) => {
+  const encryptedStake = await fhevm
+    .createEncryptedInput(await predictCoin.getAddress(), zeroTrustAddress)
+    .add64(stakeAmount)
+    .encrypt();
+
+  const tx = await zeroTrustPredict
+    .connect(signer)
+    .increaseStake(predictionId, encryptedStake.handles[0], encryptedStake.inputProof);
+  await tx.wait();
+};
+
+const confirmChallenge = async ({ zeroTrustPredict }: Fixture, predictionId: number) => {
+  const handle = (await zeroTrustPredict.getChallengeBondPosted(predictionId)) as `0x${string}`;
+  const { clearValues, decryptionProof } = await fhevm.publicDecrypt([handle]);
+  return zeroTrustPredict.confirmChallenge(predictionId, clearValues[handle] as boolean, decryptionProof);
+};
+
+const decryptBalance = async ({ predictCoin }: Fixture, signer: HardhatEthersSigner) => {
+  const encryptedBalance = await predictCoin.confidentialBalanceOf(signer.address);
+  return fhevm.userDecryptEuint(FhevmType.euint64, encryptedBalance, await predictCoin.getAddress(), signer);
 };
 
 describe("ZeroTrustPredict", function () {
   let deployer: HardhatEthersSigner;
   let alice: HardhatEthersSigner;
   let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
   let fixture: Fixture;
+  let closesAt: number;
 
   before(async function () {
-    [deployer, alice, bob] = await ethers.getSigners();
+    [deployer, alice, bob, carol] = await ethers.getSigners();
   });
 
   beforeEach(async function () {
@@ -36,13 +150,24 @@ describe("ZeroTrustPredict", function () {
       this.skip();
     }
 
-    fixture = await deployFixture();
+    fixture = await deployFixture(deployer.address);
+    closesAt = (await time.latest()) + ONE_DAY;
   });
 
   it("creates predictions with valid metadata", async function () {
     const { zeroTrustPredict } = fixture;
 
-    const tx = await zeroTrustPredict.connect(alice).createPrediction("Daily BTC Close", ["Up", "Down", "Flat"]);
+    const tx = await zeroTrustPredict
+      .connect(alice)
+      .createPrediction(
+        "Daily BTC Close",
+        ["Up", "Down", "Flat"],
+        closesAt,
+        0,
+        TallyVisibility.HiddenUntilClose,
+        ethers.ZeroAddress,
+        0,
+      );
     await tx.wait();
 
     const count = await zeroTrustPredict.predictionsCount();
@@ -51,16 +176,29 @@ describe("ZeroTrustPredict", function () {
     const prediction = await zeroTrustPredict.getPrediction(0);
     expect(prediction[0]).to.eq("Daily BTC Close");
     expect(prediction[1]).to.eq(await alice.getAddress());
-    expect(prediction[4]).to.deep.eq(["Up", "Down", "Flat"]);
+    expect(prediction[4]).to.eq(BigInt(closesAt));
+    expect(prediction[5]).to.eq(0n);
+    expect(prediction[6]).to.eq(BigInt(TallyVisibility.HiddenUntilClose));
+    expect(prediction[7]).to.deep.eq(["Up", "Down", "Flat"]);
   });
 
   it("processes encrypted selections and updates tallies", async function () {
     const { predictCoin, zeroTrustPredict, zeroTrustAddress } = fixture;
 
-    await zeroTrustPredict.connect(alice).createPrediction("FHE Adoption", ["<10 partners", "10-50 partners", ">50 partners"]);
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction(
+        "FHE Adoption",
+        ["<10 partners", "10-50 partners", ">50 partners"],
+        closesAt,
+        0,
+        TallyVisibility.Bettors,
+        ethers.ZeroAddress,
+        0,
+      );
 
     await predictCoin.connect(bob).faucet();
-    const expiry = BigInt(Math.floor(Date.now() / 1000) + 3600);
+    const expiry = BigInt((await time.latest()) + 3600);
     await predictCoin.connect(bob).setOperator(zeroTrustAddress, expiry);
 
     const stakeAmount = BigInt(2_500_000); // 2.5 PCoin (6 decimals)
@@ -84,9 +222,9 @@ describe("ZeroTrustPredict", function () {
     await placeTx.wait();
 
     const prediction = await zeroTrustPredict.getPrediction(0);
-    const selectionCounts = prediction[5];
-    const stakeTotals = prediction[6];
-    const totalStake = prediction[7];
+    const selectionCounts = prediction[8];
+    const stakeTotals = prediction[9];
+    const totalStake = prediction[10];
 
     const decryptedCount = await fhevm.userDecryptEuint(
       FhevmType.euint64,
@@ -104,12 +242,7 @@ describe("ZeroTrustPredict", function () {
     );
     expect(decryptedStakeForOption).to.eq(stakeAmount);
 
-    const decryptedTotalStake = await fhevm.userDecryptEuint(
-      FhevmType.euint64,
-      totalStake,
-      zeroTrustAddress,
-      bob,
-    );
+    const decryptedTotalStake = await fhevm.userDecryptEuint(FhevmType.euint64, totalStake, zeroTrustAddress, bob);
     expect(decryptedTotalStake).to.eq(stakeAmount);
 
     const encryptedUserStake = await zeroTrustPredict.getUserStake(0, bob.address);
@@ -126,21 +259,953 @@ describe("ZeroTrustPredict", function () {
     expect(Number(decryptedChoice)).to.eq(optionIndex);
   });
 
+  it("shares running tallies only as the visibility policy allows", async function () {
+    const { zeroTrustPredict, zeroTrustAddress } = fixture;
+
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction("Hidden", ["Yes", "No"], closesAt, 0, TallyVisibility.HiddenUntilClose, ethers.ZeroAddress, 0);
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction("Creator Only", ["Yes", "No"], closesAt, 0, TallyVisibility.CreatorOnly, ethers.ZeroAddress, 0);
+    await fundAndAuthorize(fixture, bob);
+    await placeSelection(fixture, bob, 0, 1, BigInt(1_000_000));
+    await placeSelection(fixture, bob, 1, 1, BigInt(1_000_000));
+
+    expect(await zeroTrustPredict.canDecryptTallies(0, bob.address)).to.eq(false);
+    expect(await zeroTrustPredict.canDecryptTallies(0, alice.address)).to.eq(false);
+    expect(await zeroTrustPredict.canDecryptTallies(1, bob.address)).to.eq(false);
+    expect(await zeroTrustPredict.canDecryptTallies(1, alice.address)).to.eq(true);
+
+    const hidden = await zeroTrustPredict.getPrediction(0);
+    let leaked = true;
+    try {
+      await fhevm.userDecryptEuint(FhevmType.euint64, hidden[9][1], zeroTrustAddress, bob);
+    } catch {
+      leaked = false;
+    }
+    expect(leaked).to.eq(false);
+
+    // Bettors always keep access to their own position
+    const userStake = await zeroTrustPredict.getUserStake(0, bob.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, userStake, zeroTrustAddress, bob)).to.eq(BigInt(1_000_000));
+
+    const creatorOnly = await zeroTrustPredict.getPrediction(1);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, creatorOnly[9][1], zeroTrustAddress, alice)).to.eq(
+      BigInt(1_000_000),
+    );
+  });
+
+  it("lets every bettor pull access to the running tallies as others bet", async function () {
+    const { zeroTrustPredict, zeroTrustAddress } = fixture;
+
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction("Open Book", ["Yes", "No"], closesAt, 0, TallyVisibility.Bettors, ethers.ZeroAddress, 0);
+    await fundAndAuthorize(fixture, bob);
+    await fundAndAuthorize(fixture, carol);
+    await placeSelection(fixture, bob, 0, 0, BigInt(1_000_000));
+    await placeSelection(fixture, carol, 0, 1, BigInt(3_000_000));
+    await increaseStake(fixture, carol, 0, BigInt(1_000_000));
+
+    expect(await zeroTrustPredict.canDecryptTallies(0, carol.address)).to.eq(true);
+    expect(await zeroTrustPredict.canDecryptTallies(0, bob.address)).to.eq(false);
+    await zeroTrustPredict.connect(bob).grantTallyAccess(0);
+    expect(await zeroTrustPredict.canDecryptTallies(0, bob.address)).to.eq(true);
+
+    await expect(zeroTrustPredict.connect(alice).grantTallyAccess(0))
+      .to.be.revertedWithCustomError(zeroTrustPredict, "NoPosition")
+      .withArgs(0, alice.address);
+    expect(await zeroTrustPredict.canDecryptTallies(0, alice.address)).to.eq(false);
+
+    const prediction = await zeroTrustPredict.getPrediction(0);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, prediction[9][1], zeroTrustAddress, bob)).to.eq(
+      BigInt(4_000_000),
+    );
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, prediction[10], zeroTrustAddress, bob)).to.eq(
+      BigInt(5_000_000),
+    );
+  });
+
+  it("keeps the cost of a bet flat however many bettors joined before", async function () {
+    const { zeroTrustPredict, zeroTrustAddress } = fixture;
+    const bettors = (await ethers.getSigners()).slice(4, 16);
+
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction("Crowd", ["A", "B", "C", "D"], closesAt, 0, TallyVisibility.Bettors, ethers.ZeroAddress, 0);
+
+    const gasUsed: bigint[] = [];
+    for (const [index, bettor] of bettors.entries()) {
+      await fundAndAuthorize(fixture, bettor);
+      const encryptedOption = await fhevm
+        .createEncryptedInput(zeroTrustAddress, bettor.address)
+        .add8(index % 4)
+        .encrypt();
+      const encryptedStake = await fhevm
+        .createEncryptedInput(await fixture.predictCoin.getAddress(), zeroTrustAddress)
+        .add64(BigInt(1_000_000))
+        .encrypt();
+      const tx = await zeroTrustPredict
+        .connect(bettor)
+        .placeEncryptedSelection(
+          0,
+          encryptedOption.handles[0],
+          encryptedOption.inputProof,
+          encryptedStake.handles[0],
+          encryptedStake.inputProof,
+        );
+      gasUsed.push((await tx.wait())!.gasUsed);
+    }
+
+    // Sharing with every earlier bettor used to add ~237k gas per bettor to each later bet
+    expect(gasUsed[gasUsed.length - 1] - gasUsed[1]).to.be.lessThan(BigInt(50_000));
+
+    const [first] = bettors;
+    expect(await zeroTrustPredict.canDecryptTallies(0, first.address)).to.eq(false);
+    await zeroTrustPredict.connect(first).grantTallyAccess(0);
+    const prediction = await zeroTrustPredict.getPrediction(0);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, prediction[10], zeroTrustAddress, first)).to.eq(
+      BigInt(12_000_000),
+    );
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, prediction[8][0], zeroTrustAddress, first)).to.eq(3n);
+  });
+
+  it("only shares tallies on request in Bettors mode", async function () {
+    const { zeroTrustPredict } = fixture;
+
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction("Sealed", ["Yes", "No"], closesAt, 0, TallyVisibility.HiddenUntilClose, ethers.ZeroAddress, 0);
+    await fundAndAuthorize(fixture, bob);
+    await placeSelection(fixture, bob, 0, 0, BigInt(1_000_000));
+
+    await expect(zeroTrustPredict.connect(bob).grantTallyAccess(0))
+      .to.be.revertedWithCustomError(zeroTrustPredict, "TalliesNotShared")
+      .withArgs(0);
+  });
+
+  it("returns stakes placed on out-of-range option indices", async function () {
+    const { zeroTrustPredict, zeroTrustAddress } = fixture;
+
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction("Range Check", ["A", "B", "C"], closesAt, 0, TallyVisibility.Bettors, ethers.ZeroAddress, 0);
+    await fundAndAuthorize(fixture, bob);
+
+    await placeSelection(fixture, bob, 0, 7, BigInt(5_000_000));
+
+    expect(await decryptBalance(fixture, bob)).to.eq(BigInt(100_000_000));
+
+    const prediction = await zeroTrustPredict.getPrediction(0);
+    for (let i = 0; i < 3; i++) {
+      const count = await fhevm.userDecryptEuint(FhevmType.euint64, prediction[8][i], zeroTrustAddress, bob);
+      const stake = await fhevm.userDecryptEuint(FhevmType.euint64, prediction[9][i], zeroTrustAddress, bob);
+      expect(count).to.eq(0n);
+      expect(stake).to.eq(0n);
+    }
+    const totalStake = await fhevm.userDecryptEuint(FhevmType.euint64, prediction[10], zeroTrustAddress, bob);
+    expect(totalStake).to.eq(0n);
+
+    const userStake = await zeroTrustPredict.getUserStake(0, bob.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, userStake, zeroTrustAddress, bob)).to.eq(0n);
+  });
+
+  it("flags stakes that did not move into the pot", async function () {
+    const { zeroTrustPredict, zeroTrustAddress } = fixture;
+
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction("Stake Flags", ["A", "B"], closesAt, 0, TallyVisibility.Bettors, ethers.ZeroAddress, 0);
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction("Bad Option", ["A", "B"], closesAt, 0, TallyVisibility.Bettors, ethers.ZeroAddress, 0);
+    await fundAndAuthorize(fixture, bob);
+
+    const lastStakeMoved = async (predictionId: number) =>
+      fhevm.userDecryptEbool(
+        await zeroTrustPredict.getLastStakeResult(predictionId, bob.address),
+        zeroTrustAddress,
+        bob,
+      );
+
+    // The faucet minted 100 PCoin, so this transfer silently moves nothing
+    await placeSelection(fixture, bob, 0, 0, BigInt(500_000_000));
+    expect(await lastStakeMoved(0)).to.eq(false);
+    expect(await decryptBalance(fixture, bob)).to.eq(BigInt(100_000_000));
+
+    await increaseStake(fixture, bob, 0, BigInt(5_000_000));
+    expect(await lastStakeMoved(0)).to.eq(true);
+    expect(await decryptBalance(fixture, bob)).to.eq(BigInt(95_000_000));
+
+    // A stake on an out-of-range option is sent back, so it did not move either
+    await placeSelection(fixture, bob, 1, 9, BigInt(5_000_000));
+    expect(await lastStakeMoved(1)).to.eq(false);
+  });
+
+  it("keeps tallies consistent when bettors change choice or top up", async function () {
+    const { predictCoin, zeroTrustPredict, zeroTrustAddress } = fixture;
+
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction("Rebet", ["A", "B", "C"], closesAt, 0, TallyVisibility.Bettors, ethers.ZeroAddress, 0);
+    await fundAndAuthorize(fixture, bob);
+    await fundAndAuthorize(fixture, deployer);
+
+    await placeSelection(fixture, bob, 0, 0, BigInt(2_000_000));
+    await placeSelection(fixture, deployer, 0, 1, BigInt(1_000_000));
+
+    await changeChoice(fixture, bob, 0, 1);
+    await increaseStake(fixture, bob, 0, BigInt(3_000_000));
+    // An out-of-range option leaves the current choice in place
+    await changeChoice(fixture, bob, 0, 9);
+
+    const encryptedOption = await fhevm.createEncryptedInput(zeroTrustAddress, bob.address).add8(2).encrypt();
+    const encryptedStake = await fhevm
+      .createEncryptedInput(await predictCoin.getAddress(), zeroTrustAddress)
+      .add64(1_000_000)
+      .encrypt();
+    await expect(
+      zeroTrustPredict
+        .connect(bob)
+        .placeEncryptedSelection(
+          0,
+          encryptedOption.handles[0],
+          encryptedOption.inputProof,
+          encryptedStake.handles[0],
+          encryptedStake.inputProof,
+        ),
+    )
+      .to.be.revertedWithCustomError(zeroTrustPredict, "PositionAlreadyPlaced")
+      .withArgs(0, bob.address);
+
+    const prediction = await zeroTrustPredict.getPrediction(0);
+    const counts = [];
+    const stakes = [];
+    for (let i = 0; i < 3; i++) {
+      counts.push(await fhevm.userDecryptEuint(FhevmType.euint64, prediction[8][i], zeroTrustAddress, bob));
+      stakes.push(await fhevm.userDecryptEuint(FhevmType.euint64, prediction[9][i], zeroTrustAddress, bob));
+    }
+    expect(counts).to.deep.eq([0n, 2n, 0n]);
+    expect(stakes).to.deep.eq([0n, BigInt(6_000_000), 0n]);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, prediction[10], zeroTrustAddress, bob)).to.eq(
+      BigInt(6_000_000),
+    );
+
+    const userStake = await zeroTrustPredict.getUserStake(0, bob.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, userStake, zeroTrustAddress, bob)).to.eq(BigInt(5_000_000));
+    const userChoice = await zeroTrustPredict.getUserChoice(0, bob.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint8, userChoice, zeroTrustAddress, bob)).to.eq(1n);
+  });
+
+  it("requires an existing position to change choice or top up", async function () {
+    const { zeroTrustPredict } = fixture;
+
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction("No Position", ["A", "B"], closesAt, 0, TallyVisibility.Bettors, ethers.ZeroAddress, 0);
+    await fundAndAuthorize(fixture, bob);
+
+    const encryptedOption = await fhevm.createEncryptedInput(fixture.zeroTrustAddress, bob.address).add8(1).encrypt();
+    await expect(zeroTrustPredict.connect(bob).changeChoice(0, encryptedOption.handles[0], encryptedOption.inputProof))
+      .to.be.revertedWithCustomError(zeroTrustPredict, "NoPosition")
+      .withArgs(0, bob.address);
+  });
+
+  it("batches a user's positions across the predictions they bet on", async function () {
+    const { zeroTrustPredict, lens } = fixture;
+
+    for (const title of ["First", "Second", "Third"]) {
+      await zeroTrustPredict
+        .connect(alice)
+        .createPrediction(title, ["A", "B"], closesAt, 0, TallyVisibility.Bettors, ethers.ZeroAddress, 0);
+    }
+    await fundAndAuthorize(fixture, bob);
+    await placeSelection(fixture, bob, 2, 1, BigInt(1_000_000));
+    await placeSelection(fixture, bob, 0, 0, BigInt(2_000_000));
+
+    expect(await zeroTrustPredict.getUserPredictionIds(bob.address)).to.deep.eq([2n, 0n]);
+    expect(await zeroTrustPredict.getUserPredictionIds(carol.address)).to.deep.eq([]);
+
+    const positions = await lens.getUserPositions(bob.address, [0, 1, 2]);
+    expect(positions.map((position) => position.predictionId)).to.deep.eq([0n, 1n, 2n]);
+    expect(positions.map((position) => position.participated)).to.deep.eq([true, false, true]);
+    expect(positions[0].stake).to.eq(await zeroTrustPredict.getUserStake(0, bob.address));
+    expect(positions[2].choice).to.eq(await zeroTrustPredict.getUserChoice(2, bob.address));
+    expect(positions[1].stake).to.eq(ethers.ZeroHash);
+    expect(positions.map((position) => position.canDecryptTallies)).to.deep.eq([true, false, true]);
+    expect(positions.every((position) => !position.claimed)).to.eq(true);
+
+    const clearChoice = await fhevm.userDecryptEuint(
+      FhevmType.euint8,
+      positions[2].choice,
+      fixture.zeroTrustAddress,
+      bob,
+    );
+    expect(clearChoice).to.eq(1n);
+  });
+
+  it("resolves predictions and pays winners their pro-rata share", async function () {
+    const { zeroTrustPredict } = fixture;
+    const faucetAmount = BigInt(100_000_000);
+
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction(
+        "Rate Cut",
+        ["Yes", "No"],
+        closesAt,
+        0,
+        TallyVisibility.HiddenUntilClose,
+        ethers.ZeroAddress,
+        0,
+      );
+    await fundAndAuthorize(fixture, bob);
+    await fundAndAuthorize(fixture, deployer);
+
+    await placeSelection(fixture, bob, 0, 0, BigInt(3_000_000));
+    await placeSelection(fixture, deployer, 0, 1, BigInt(1_000_000));
+
+    await expect(zeroTrustPredict.connect(bob).resolvePrediction(0, 0)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "NotPredictionCreator",
+    );
+    await expect(zeroTrustPredict.connect(alice).resolvePrediction(0, 2)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "InvalidWinningOption",
+    );
+    await zeroTrustPredict.connect(alice).resolvePrediction(0, 0);
+    await expect(placeSelection(fixture, bob, 0, 0, BigInt(1_000_000))).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "InactivePrediction",
+    );
+
+    // Proposed outcomes pay nothing until the dispute window passes
+    await expect(zeroTrustPredict.connect(bob).claimWinnings(0)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "PredictionNotResolved",
+    );
+    await expect(zeroTrustPredict.finalizeOutcome(0)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "DisputeWindowOpen",
+    );
+    await time.increase(await zeroTrustPredict.DISPUTE_WINDOW());
+    await expect(zeroTrustPredict.connect(bob).finalizeOutcome(0))
+      .to.emit(zeroTrustPredict, "PredictionResolved")
+      .withArgs(0, 0);
+    await expect(zeroTrustPredict.connect(bob).claimWinnings(0)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "PayoutsNotPublished",
+    );
+
+    const prediction = await zeroTrustPredict.getPrediction(0);
+    const handles = [prediction[9][0], await zeroTrustPredict.getPayoutPot(0)] as `0x${string}`[];
+    const { clearValues, decryptionProof } = await fhevm.publicDecrypt(handles);
+    await zeroTrustPredict
+      .connect(bob)
+      .publishPayoutTotals(0, clearValues[handles[0]] as bigint, clearValues[handles[1]] as bigint, decryptionProof);
+
+    const resolution = await zeroTrustPredict.getResolution(0);
+    expect(resolution.payoutsPublished).to.eq(true);
+    expect(resolution.winningStake).to.eq(BigInt(3_000_000));
+    expect(resolution.payoutPot).to.eq(BigInt(4_000_000));
+    const [summary] = await fixture.lens.getPredictionSummaries([0]);
+    expect([summary.winningStake, summary.payoutPot]).to.deep.eq([resolution.winningStake, resolution.payoutPot]);
+
+    await zeroTrustPredict.connect(bob).claimWinnings(0);
+    await zeroTrustPredict.connect(deployer).claimWinnings(0);
+
+    expect(await decryptBalance(fixture, bob)).to.eq(faucetAmount + BigInt(1_000_000));
+    expect(await decryptBalance(fixture, deployer)).to.eq(faucetAmount - BigInt(1_000_000));
+    expect(await zeroTrustPredict.hasClaimed(0, bob.address)).to.eq(true);
+
+    await expect(zeroTrustPredict.connect(bob).claimWinnings(0)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "AlreadyClaimed",
+    );
+    await expect(zeroTrustPredict.connect(alice).claimWinnings(0)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "NothingToClaim",
+    );
+  });
+
+  it("refunds every bettor exactly once after cancellation", async function () {
+    const { zeroTrustPredict } = fixture;
+    const faucetAmount = BigInt(100_000_000);
+
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction("Mainnet Date", ["Q3", "Q4"], closesAt, 0, TallyVisibility.Bettors, ethers.ZeroAddress, 0);
+    await fundAndAuthorize(fixture, bob);
+    await fundAndAuthorize(fixture, deployer);
+
+    await placeSelection(fixture, bob, 0, 0, BigInt(2_000_000));
+    await increaseStake(fixture, bob, 0, BigInt(500_000));
+    await placeSelection(fixture, deployer, 0, 1, BigInt(4_000_000));
+
+    await expect(zeroTrustPredict.connect(bob).refund(0)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "PredictionNotCancelled",
+    );
+    await expect(zeroTrustPredict.connect(bob).cancelPrediction(0)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "NotPredictionCreator",
+    );
+
+    await expect(zeroTrustPredict.connect(alice).cancelPrediction(0))
+      .to.emit(zeroTrustPredict, "PredictionCancelled")
+      .withArgs(0, alice.address);
+    await expect(zeroTrustPredict.connect(alice).resolvePrediction(0, 0)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "PredictionNotOpen",
+    );
+
+    await zeroTrustPredict.connect(bob).refund(0);
+    await zeroTrustPredict.connect(deployer).refund(0);
+
+    expect(await decryptBalance(fixture, bob)).to.eq(faucetAmount);
+    expect(await decryptBalance(fixture, deployer)).to.eq(faucetAmount);
+
+    await expect(zeroTrustPredict.connect(bob).refund(0)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "AlreadyClaimed",
+    );
+    await expect(zeroTrustPredict.connect(alice).refund(0)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "NothingToClaim",
+    );
+
+    // Cancelling never reveals the tallies: they remain readable only through per-bettor ACL grants
+    const prediction = await zeroTrustPredict.getPrediction(0);
+    let publiclyRevealed = true;
+    try {
+      await fhevm.publicDecrypt([prediction[10]]);
+    } catch {
+      publiclyRevealed = false;
+    }
+    expect(publiclyRevealed).to.eq(false);
+    const decryptedTotal = await fhevm.userDecryptEuint(
+      FhevmType.euint64,
+      prediction[10],
+      fixture.zeroTrustAddress,
+      deployer,
+    );
+    expect(decryptedTotal).to.eq(BigInt(6_500_000));
+  });
+
+  it("lets anyone cancel once the resolution deadline lapses", async function () {
+    const { zeroTrustPredict } = fixture;
+    const resolveBy = closesAt + ONE_DAY;
+
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction(
+        "Abandoned",
+        ["Yes", "No"],
+        closesAt,
+        resolveBy,
+        TallyVisibility.HiddenUntilClose,
+        ethers.ZeroAddress,
+        0,
+      );
+    await fundAndAuthorize(fixture, bob);
+    await placeSelection(fixture, bob, 0, 1, BigInt(1_000_000));
+
+    await time.increaseTo(resolveBy - 1);
+    await expect(zeroTrustPredict.connect(bob).cancelPrediction(0)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "NotPredictionCreator",
+    );
+
+    await time.increase(1);
+    await zeroTrustPredict.connect(bob).cancelPrediction(0);
+    await zeroTrustPredict.connect(bob).refund(0);
+
+    expect(await decryptBalance(fixture, bob)).to.eq(BigInt(100_000_000));
+    expect((await zeroTrustPredict.getResolution(0)).state).to.eq(BigInt(PredictionState.Cancelled));
+  });
+
+  it("publicly reveals final tallies after betting closes", async function () {
+    const { zeroTrustPredict } = fixture;
+
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction(
+        "Public Reveal",
+        ["Red", "Blue", "Green"],
+        closesAt,
+        0,
+        TallyVisibility.HiddenUntilClose,
+        ethers.ZeroAddress,
+        0,
+      );
+    await fundAndAuthorize(fixture, bob);
+    await fundAndAuthorize(fixture, deployer);
+    await placeSelection(fixture, bob, 0, 2, BigInt(1_500_000));
+    await placeSelection(fixture, deployer, 0, 2, BigInt(500_000));
+
+    await expect(zeroTrustPredict.connect(alice).requestTallyReveal(0)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "BettingStillOpen",
+    );
+    await expect(zeroTrustPredict.revealTallies(0, "0x", "0x")).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "TallyRevealNotRequested",
+    );
+
+    await time.increaseTo(closesAt);
+    await expect(zeroTrustPredict.connect(alice).requestTallyReveal(0))
+      .to.emit(zeroTrustPredict, "TallyRevealRequested")
+      .withArgs(0, alice.address);
+
+    const prediction = await zeroTrustPredict.getPrediction(0);
+    const handles = [...prediction[8], ...prediction[9], prediction[10]];
+    const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt(handles);
+
+    await expect(zeroTrustPredict.connect(alice).revealTallies(0, abiEncodedClearValues, decryptionProof))
+      .to.emit(zeroTrustPredict, "TalliesRevealed")
+      .withArgs(0, [0n, 0n, 2n], [0n, 0n, 2_000_000n], 2_000_000n);
+
+    const revealed = await zeroTrustPredict.getRevealedTallies(0);
+    expect(revealed.talliesRevealed).to.eq(true);
+    expect(revealed.selections).to.deep.eq([0n, 0n, 2n]);
+    expect(revealed.stakes).to.deep.eq([0n, 0n, 2_000_000n]);
+    expect(revealed.totalStake).to.eq(2_000_000n);
+
+    await expect(
+      zeroTrustPredict.revealTallies(0, abiEncodedClearValues, decryptionProof),
+    ).to.be.revertedWithCustomError(zeroTrustPredict, "TalliesAlreadyRevealed");
+  });
+
   it("prevents non-creators from toggling predictions", async function () {
     const { zeroTrustPredict } = fixture;
 
-    await zeroTrustPredict.connect(alice).createPrediction("Network Upgrade", ["Yes", "No"]);
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction(
+        "Network Upgrade",
+        ["Yes", "No"],
+        closesAt,
+        0,
+        TallyVisibility.HiddenUntilClose,
+        ethers.ZeroAddress,
+        0,
+      );
     await expect(zeroTrustPredict.connect(bob).setPredictionActive(0, false)).to.be.revertedWithCustomError(
       zeroTrustPredict,
       "NotPredictionCreator",
     );
   });
 
+  it("pages predictions overall, by creator and by accepting state", async function () {
+    const { zeroTrustPredict, lens } = fixture;
+
+    for (let i = 0; i < 5; i++) {
+      const creator = i % 2 === 0 ? alice : bob;
+      await zeroTrustPredict
+        .connect(creator)
+        .createPrediction(
+          `Market ${i}`,
+          ["Yes", "No"],
+          i === 4 ? closesAt + ONE_DAY : closesAt,
+          0,
+          TallyVisibility.HiddenUntilClose,
+          ethers.ZeroAddress,
+          0,
+        );
+    }
+    await zeroTrustPredict.connect(alice).setPredictionActive(2, false);
+
+    const [firstPage, total] = await lens.getPredictionsPage(0, 2);
+    expect(total).to.eq(5n);
+    expect(firstPage.map((summary) => summary.title)).to.deep.eq(["Market 0", "Market 1"]);
+    expect(firstPage[1].creator).to.eq(bob.address);
+    expect(firstPage[1].optionLabels).to.deep.eq(["Yes", "No"]);
+    const [lastPage] = await lens.getPredictionsPage(4, 10);
+    expect(lastPage.map((summary) => summary.id)).to.deep.eq([4n]);
+    expect((await lens.getPredictionsPage(5, 10))[0]).to.have.length(0);
+
+    expect(await zeroTrustPredict.getCreatorPredictionIds(bob.address)).to.deep.eq([1n, 3n]);
+    const [alicePage, aliceTotal] = await lens.getPredictionsByCreator(alice.address, 1, 10);
+    expect(aliceTotal).to.eq(3n);
+    expect(alicePage.map((summary) => summary.id)).to.deep.eq([2n, 4n]);
+
+    const summaries = await lens.getPredictionSummaries([3, 1]);
+    expect(summaries.map((summary) => summary.title)).to.deep.eq(["Market 3", "Market 1"]);
+
+    // Each call scans `limit` predictions, skipping inactive ones, and resumes from the returned offset
+    const [activeIds, nextOffset] = await zeroTrustPredict.getActivePredictionIds(0, 3);
+    expect(activeIds).to.deep.eq([0n, 1n]);
+    expect(nextOffset).to.eq(3n);
+    const [moreIds, endOffset] = await zeroTrustPredict.getActivePredictionIds(nextOffset, 10);
+    expect(moreIds).to.deep.eq([3n, 4n]);
+    expect(endOffset).to.eq(5n);
+    const [pastEnd, pastEndOffset] = await zeroTrustPredict.getActivePredictionIds(7, 10);
+    expect(pastEnd).to.have.length(0);
+    expect(pastEndOffset).to.eq(5n);
+
+    await time.increaseTo(closesAt);
+    const [stillActive] = await zeroTrustPredict.getActivePredictionIds(0, 10);
+    expect(stillActive).to.deep.eq([4n]);
+  });
+
+  it("accepts outcomes only from the designated resolver", async function () {
+    const { zeroTrustPredict, zeroTrustAddress } = fixture;
+    const resolverFactory = (await ethers.getContractFactory(
+      "MockPredictionResolver",
+    )) as MockPredictionResolver__factory;
+    const resolver = (await resolverFactory.deploy()) as MockPredictionResolver;
+    const resolverAddress = await resolver.getAddress();
+
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction("Pulled", ["Yes", "No"], closesAt, 0, TallyVisibility.HiddenUntilClose, resolverAddress, 0);
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction("Pushed", ["Yes", "No"], closesAt, 0, TallyVisibility.HiddenUntilClose, resolverAddress, 0);
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction("Creator", ["Yes", "No"], closesAt, 0, TallyVisibility.HiddenUntilClose, ethers.ZeroAddress, 0);
+
+    await expect(zeroTrustPredict.connect(alice).resolvePrediction(0, 0))
+      .to.be.revertedWithCustomError(zeroTrustPredict, "NotPredictionResolver")
+      .withArgs(alice.address);
+    await expect(zeroTrustPredict.pullResolution(0))
+      .to.be.revertedWithCustomError(zeroTrustPredict, "OutcomeNotAvailable")
+      .withArgs(0);
+    await expect(zeroTrustPredict.pullResolution(2))
+      .to.be.revertedWithCustomError(zeroTrustPredict, "NoResolver")
+      .withArgs(2);
+
+    await resolver.setOutcome(zeroTrustAddress, 0, 1);
+    await expect(zeroTrustPredict.connect(bob).pullResolution(0)).to.emit(zeroTrustPredict, "OutcomeProposed");
+    await expect(resolver.pushOutcome(zeroTrustAddress, 1, 0)).to.emit(zeroTrustPredict, "OutcomeProposed");
+
+    const pulled = await zeroTrustPredict.getResolution(0);
+    expect(pulled[0]).to.eq(BigInt(PredictionState.Proposed));
+    expect(pulled[1]).to.eq(1n);
+    expect(pulled[5]).to.eq(resolverAddress);
+    const pushed = await zeroTrustPredict.getResolution(1);
+    expect(pushed[0]).to.eq(BigInt(PredictionState.Proposed));
+    expect(pushed[1]).to.eq(0n);
+  });
+
+  it("takes protocol and creator fees from the pot of predictions with winners", async function () {
+    const { zeroTrustPredict } = fixture;
+    const faucetAmount = BigInt(100_000_000);
+
+    await expect(zeroTrustPredict.connect(alice).setProtocolFee(200))
+      .to.be.revertedWithCustomError(zeroTrustPredict, "NotOwner")
+      .withArgs(alice.address);
+    await expect(zeroTrustPredict.setProtocolFee(501))
+      .to.be.revertedWithCustomError(zeroTrustPredict, "FeeTooHigh")
+      .withArgs(501, 500);
+    await expect(
+      zeroTrustPredict
+        .connect(alice)
+        .createPrediction("Greedy", ["Yes", "No"], closesAt, 0, TallyVisibility.Bettors, ethers.ZeroAddress, 501),
+    )
+      .to.be.revertedWithCustomError(zeroTrustPredict, "FeeTooHigh")
+      .withArgs(501, 500);
+
+    await zeroTrustPredict.setProtocolFee(200);
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction("Fees", ["Yes", "No"], closesAt, 0, TallyVisibility.Bettors, ethers.ZeroAddress, 300);
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction("No Winners", ["Yes", "No"], closesAt, 0, TallyVisibility.Bettors, ethers.ZeroAddress, 300);
+    const fees = await zeroTrustPredict.getFees(0);
+    expect(fees.protocolFee).to.eq(200n);
+    expect(fees.creatorFee).to.eq(300n);
+
+    await fundAndAuthorize(fixture, bob);
+    await fundAndAuthorize(fixture, deployer);
+    await placeSelection(fixture, bob, 0, 0, BigInt(3_000_000));
+    await placeSelection(fixture, deployer, 0, 1, BigInt(1_000_000));
+    await placeSelection(fixture, bob, 1, 0, BigInt(2_000_000));
+
+    await zeroTrustPredict.connect(alice).resolvePrediction(0, 0);
+    await zeroTrustPredict.connect(alice).resolvePrediction(1, 1);
+    await time.increase(await zeroTrustPredict.DISPUTE_WINDOW());
+    await zeroTrustPredict.finalizeOutcome(0);
+    await zeroTrustPredict.finalizeOutcome(1);
+
+    // 4 PCoin pot: 2% protocol fee (0.08) and 3% creator fee (0.12) leave 3.8 PCoin for the winners
+    const prediction = await zeroTrustPredict.getPrediction(0);
+    const handles = [prediction[9][0], await zeroTrustPredict.getPayoutPot(0)] as `0x${string}`[];
+    const { clearValues, decryptionProof } = await fhevm.publicDecrypt(handles);
+    expect(clearValues[handles[1]]).to.eq(BigInt(3_800_000));
+    await zeroTrustPredict.publishPayoutTotals(
+      0,
+      clearValues[handles[0]] as bigint,
+      clearValues[handles[1]] as bigint,
+      decryptionProof,
+    );
+    await zeroTrustPredict.connect(bob).claimWinnings(0);
+    expect(await decryptBalance(fixture, bob)).to.eq(faucetAmount - BigInt(2_000_000) + BigInt(800_000));
+
+    // Nobody backed the winner of the second prediction, so its whole pot stays refundable
+    const noWinnersPot = (await zeroTrustPredict.getPayoutPot(1)) as `0x${string}`;
+    const noWinners = await fhevm.publicDecrypt([noWinnersPot]);
+    expect(noWinners.clearValues[noWinnersPot]).to.eq(BigInt(2_000_000));
+
+    await expect(zeroTrustPredict.connect(bob).withdrawProtocolFees())
+      .to.be.revertedWithCustomError(zeroTrustPredict, "NotTreasury")
+      .withArgs(bob.address);
+    await zeroTrustPredict.connect(deployer).withdrawProtocolFees();
+    await zeroTrustPredict.connect(alice).withdrawCreatorFees();
+
+    expect(await decryptBalance(fixture, deployer)).to.eq(faucetAmount - BigInt(1_000_000) + BigInt(80_000));
+    expect(await decryptBalance(fixture, alice)).to.eq(BigInt(120_000));
+  });
+
+  it("rejects protocol fee withdrawals before any fee accrued", async function () {
+    const { zeroTrustPredict } = fixture;
+
+    await expect(zeroTrustPredict.connect(deployer).withdrawProtocolFees())
+      .to.be.revertedWithCustomError(zeroTrustPredict, "NoFeesAccrued")
+      .withArgs(deployer.address);
+  });
+
+  it("rejects creator fee withdrawals before any fee accrued", async function () {
+    const { zeroTrustPredict } = fixture;
+
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction(
+        "No Fees Yet",
+        ["Yes", "No"],
+        closesAt,
+        0,
+        TallyVisibility.HiddenUntilClose,
+        ethers.ZeroAddress,
+        300,
+      );
+
+    await expect(zeroTrustPredict.connect(alice).withdrawCreatorFees())
+      .to.be.revertedWithCustomError(zeroTrustPredict, "NoFeesAccrued")
+      .withArgs(alice.address);
+  });
+
+  it("refunds the bond when the arbiter overturns a challenged outcome", async function () {
+    const { zeroTrustPredict } = fixture;
+
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction(
+        "Disputed",
+        ["Yes", "No"],
+        closesAt,
+        0,
+        TallyVisibility.HiddenUntilClose,
+        ethers.ZeroAddress,
+        0,
+      );
+    await fundAndAuthorize(fixture, bob);
+    await fundAndAuthorize(fixture, carol);
+    await placeSelection(fixture, bob, 0, 1, BigInt(2_000_000));
+
+    await zeroTrustPredict.connect(alice).resolvePrediction(0, 0);
+    await expect(zeroTrustPredict.connect(carol).challengeOutcome(0)).to.emit(zeroTrustPredict, "ChallengeSubmitted");
+    expect(await decryptBalance(fixture, carol)).to.eq(BigInt(90_000_000));
+    await expect(zeroTrustPredict.connect(bob).challengeOutcome(0)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "ChallengePending",
+    );
+    await expect(confirmChallenge(fixture, 0)).to.emit(zeroTrustPredict, "OutcomeDisputed");
+
+    await expect(zeroTrustPredict.connect(bob).challengeOutcome(0)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "OutcomeNotProposed",
+    );
+    await time.increase(await zeroTrustPredict.DISPUTE_WINDOW());
+    await expect(zeroTrustPredict.finalizeOutcome(0)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "OutcomeNotProposed",
+    );
+    await expect(zeroTrustPredict.connect(alice).settleDispute(0, 1))
+      .to.be.revertedWithCustomError(zeroTrustPredict, "NotArbiter")
+      .withArgs(alice.address);
+
+    await expect(zeroTrustPredict.connect(deployer).settleDispute(0, 1))
+      .to.emit(zeroTrustPredict, "DisputeSettled")
+      .withArgs(0, 1, false)
+      .and.to.emit(zeroTrustPredict, "PredictionResolved")
+      .withArgs(0, 1);
+
+    expect(await decryptBalance(fixture, carol)).to.eq(BigInt(100_000_000));
+    const resolution = await zeroTrustPredict.getResolution(0);
+    expect(resolution.state).to.eq(BigInt(PredictionState.Finalized));
+    expect(resolution.winningOption).to.eq(1n);
+    expect(resolution.challenger).to.eq(carol.address);
+  });
+
+  it("slashes the bond of an upheld challenge and closes the window on time", async function () {
+    const { zeroTrustPredict } = fixture;
+
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction("Upheld", ["Yes", "No"], closesAt, 0, TallyVisibility.HiddenUntilClose, ethers.ZeroAddress, 0);
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction("Late", ["Yes", "No"], closesAt, 0, TallyVisibility.HiddenUntilClose, ethers.ZeroAddress, 0);
+    await fundAndAuthorize(fixture, carol);
+    await fundAndAuthorize(fixture, deployer);
+
+    await zeroTrustPredict.connect(alice).resolvePrediction(0, 0);
+    await zeroTrustPredict.connect(carol).challengeOutcome(0);
+    await confirmChallenge(fixture, 0);
+    await expect(zeroTrustPredict.connect(deployer).settleDispute(0, 0))
+      .to.emit(zeroTrustPredict, "DisputeSettled")
+      .withArgs(0, 0, true);
+
+    expect(await decryptBalance(fixture, carol)).to.eq(BigInt(90_000_000));
+    expect(await decryptBalance(fixture, deployer)).to.eq(BigInt(110_000_000));
+
+    await zeroTrustPredict.connect(alice).resolvePrediction(1, 1);
+    await time.increase(await zeroTrustPredict.DISPUTE_WINDOW());
+    await expect(zeroTrustPredict.connect(carol).challengeOutcome(1)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "DisputeWindowClosed",
+    );
+    await zeroTrustPredict.finalizeOutcome(1);
+    expect((await zeroTrustPredict.getResolution(1)).state).to.eq(BigInt(PredictionState.Finalized));
+  });
+
+  it("drops challenges whose bond did not move", async function () {
+    const { predictCoin, zeroTrustPredict, zeroTrustAddress } = fixture;
+
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction(
+        "Free Ride",
+        ["Yes", "No"],
+        closesAt,
+        0,
+        TallyVisibility.HiddenUntilClose,
+        ethers.ZeroAddress,
+        0,
+      );
+    // Less than the bond: PredictCoin moves nothing instead of reverting
+    await predictCoin.connect(deployer).mint(carol.address, BigInt(5_000_000));
+    await predictCoin.connect(carol).setOperator(zeroTrustAddress, (await time.latest()) + ONE_DAY * 30);
+
+    await zeroTrustPredict.connect(alice).resolvePrediction(0, 0);
+    await zeroTrustPredict.connect(carol).challengeOutcome(0);
+    expect((await zeroTrustPredict.getResolution(0)).state).to.eq(BigInt(PredictionState.Proposed));
+    await time.increase(await zeroTrustPredict.DISPUTE_WINDOW());
+    await expect(zeroTrustPredict.finalizeOutcome(0)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "ChallengePending",
+    );
+
+    await expect(confirmChallenge(fixture, 0))
+      .to.emit(zeroTrustPredict, "ChallengeRejected")
+      .withArgs(0, carol.address)
+      .and.not.to.emit(zeroTrustPredict, "OutcomeDisputed");
+    const resolution = await zeroTrustPredict.getResolution(0);
+    expect(resolution.state).to.eq(BigInt(PredictionState.Proposed));
+    expect(resolution.challenger).to.eq(ethers.ZeroAddress);
+    expect(await decryptBalance(fixture, carol)).to.eq(BigInt(5_000_000));
+    await expect(confirmChallenge(fixture, 0)).to.be.revertedWithCustomError(zeroTrustPredict, "NoPendingChallenge");
+
+    await zeroTrustPredict.finalizeOutcome(0);
+    expect((await zeroTrustPredict.getResolution(0)).state).to.eq(BigInt(PredictionState.Finalized));
+  });
+
+  it("lets anyone cancel a dispute the arbiter never settles", async function () {
+    const { zeroTrustPredict } = fixture;
+
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction("Stalled", ["Yes", "No"], closesAt, 0, TallyVisibility.HiddenUntilClose, ethers.ZeroAddress, 0);
+    await fundAndAuthorize(fixture, bob);
+    await fundAndAuthorize(fixture, carol);
+    await placeSelection(fixture, bob, 0, 1, BigInt(2_000_000));
+
+    await zeroTrustPredict.connect(alice).resolvePrediction(0, 0);
+    await zeroTrustPredict.connect(carol).challengeOutcome(0);
+    await confirmChallenge(fixture, 0);
+    await expect(zeroTrustPredict.connect(bob).cancelPrediction(0)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "PredictionNotOpen",
+    );
+
+    await time.increase((await zeroTrustPredict.ARBITRATION_PERIOD()) + 1n);
+    await expect(zeroTrustPredict.connect(bob).cancelPrediction(0))
+      .to.emit(zeroTrustPredict, "PredictionCancelled")
+      .withArgs(0, bob.address);
+    expect(await decryptBalance(fixture, carol)).to.eq(BigInt(100_000_000));
+    await expect(zeroTrustPredict.connect(deployer).settleDispute(0, 0)).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "OutcomeNotDisputed",
+    );
+
+    await zeroTrustPredict.connect(bob).refund(0);
+    expect(await decryptBalance(fixture, bob)).to.eq(BigInt(100_000_000));
+  });
+
   it("rejects invalid option counts", async function () {
     const { zeroTrustPredict } = fixture;
-    await expect(zeroTrustPredict.connect(alice).createPrediction("Invalid", ["OnlyOne"])).to.be.revertedWithCustomError(
+    await expect(
+      zeroTrustPredict
+        .connect(alice)
+        .createPrediction("Invalid", ["OnlyOne"], closesAt, 0, TallyVisibility.HiddenUntilClose, ethers.ZeroAddress, 0),
+    ).to.be.revertedWithCustomError(zeroTrustPredict, "InvalidOptionCount");
+  });
+
+  it("rejects close and resolve times that are already invalid", async function () {
+    const { zeroTrustPredict } = fixture;
+    const now = await time.latest();
+
+    await expect(
+      zeroTrustPredict
+        .connect(alice)
+        .createPrediction("Stale", ["Yes", "No"], now, 0, TallyVisibility.HiddenUntilClose, ethers.ZeroAddress, 0),
+    ).to.be.revertedWithCustomError(zeroTrustPredict, "InvalidCloseTime");
+    await expect(
+      zeroTrustPredict
+        .connect(alice)
+        .createPrediction(
+          "Backwards",
+          ["Yes", "No"],
+          closesAt,
+          closesAt - 1,
+          TallyVisibility.HiddenUntilClose,
+          ethers.ZeroAddress,
+          0,
+        ),
+    ).to.be.revertedWithCustomError(zeroTrustPredict, "InvalidResolveDeadline");
+  });
+
+  it("stops accepting selections once the close time passes", async function () {
+    const { zeroTrustPredict } = fixture;
+
+    await zeroTrustPredict
+      .connect(alice)
+      .createPrediction(
+        "Launch Date",
+        ["Q1", "Q2"],
+        closesAt,
+        closesAt + ONE_DAY,
+        TallyVisibility.HiddenUntilClose,
+        ethers.ZeroAddress,
+        0,
+      );
+    await fundAndAuthorize(fixture, bob);
+    await placeSelection(fixture, bob, 0, 0, BigInt(1_000_000));
+
+    await time.increaseTo(closesAt);
+    await expect(placeSelection(fixture, bob, 0, 1, BigInt(1_000_000))).to.be.revertedWithCustomError(
+      zeroTrustPredict,
+      "BettingClosed",
+    );
+
+    await time.increaseTo(closesAt + 2 * ONE_DAY);
+    await expect(zeroTrustPredict.connect(alice).resolvePrediction(0, 0)).to.be.revertedWithCustomError(
       zeroTrustPredict,
-      "InvalidOptionCount",
+      "ResolutionDeadlinePassed",
     );
   });
 });